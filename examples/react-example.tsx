@@ -1,90 +1,54 @@
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import { SecretLinksSDK, PayloadData, LinkInfo } from '../src/index';
+import React, { useState, useCallback } from 'react';
+import { PayloadData } from '../src/index';
+import { SecretLinksProvider, useSecretLink, useLinkValidation } from '../src/react';
 
-interface Message {
-  id: string;
-  payload: PayloadData;
-  linkInfo: LinkInfo;
-  timestamp: number;
-}
+const sdkOptions = {
+  pollingEndpoint: '/api/secret-links/poll',
+  debug: true
+};
 
 export function ReactSecretLinksExample() {
+  // The provider creates the SDK once and disposes it on unmount
+  return (
+    <SecretLinksProvider options={sdkOptions}>
+      <SecretLinkListener />
+    </SecretLinksProvider>
+  );
+}
+
+function SecretLinkListener() {
   const [linkUrl, setLinkUrl] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [isListening, setIsListening] = useState(false);
-  const [currentListenerId, setCurrentListenerId] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [activeUrl, setActiveUrl] = useState<string | null>(null);
+  const [dismissedError, setDismissedError] = useState<Error | null>(null);
+  const validation = useLinkValidation(linkUrl.trim());
 
-  // Initialize SDK
-  const sdk = useMemo(() => new SecretLinksSDK({
-    pollingEndpoint: '/api/secret-links/poll',
-    debug: true,
-    onError: (error) => {
-      console.error('SDK Global Error:', error);
-      setError(error.message);
+  const showNotification = useCallback((payload: PayloadData) => {
+    // Show browser notification if available
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification('Secret Link Message', {
+        body: `New ${payload.type} message received`,
+        icon: '/favicon.ico'
+      });
     }
-  }), []);
+  }, []);
 
-  const handleStartListening = useCallback(async () => {
-    if (!linkUrl.trim()) {
-      setError('Please enter a Secret Links URL');
-      return;
-    }
+  // Listens while activeUrl is set; stops on unmount or when it is cleared
+  const { payloads, status, error, isPolling } = useSecretLink(activeUrl, {
+    maxPayloads: 50,
+    onPayload: showNotification
+  });
+  const isListening = activeUrl !== null && isPolling;
+  const messages = [...payloads].reverse();
+  const visibleError = error && error !== dismissedError
+    ? error.message
+    : !validation.isValid && linkUrl.trim() && validation.errors[0]?.message;
 
-    try {
-      setError(null);
-      
-      const listenerId = await sdk.startListening(linkUrl, {
-        onPayload: (payload: PayloadData, linkInfo: LinkInfo) => {
-          const message: Message = {
-            id: `${Date.now()}-${Math.random()}`,
-            payload,
-            linkInfo,
-            timestamp: Date.now()
-          };
-          
-          setMessages(prev => [message, ...prev]);
-          
-          // Show browser notification if available
-          if ('Notification' in window && Notification.permission === 'granted') {
-            new Notification('Secret Link Message', {
-              body: `New ${payload.type} message received`,
-              icon: '/favicon.ico'
-            });
-          }
-        },
-        onError: (error: Error, linkInfo: LinkInfo) => {
-          console.error('Link Error:', error, linkInfo);
-          setError(`Error from ${linkInfo.token.substring(0, 8)}...: ${error.message}`);
-        },
-        onStatusChange: (status, linkInfo: LinkInfo) => {
-          console.log('Link status changed:', status, linkInfo);
-          if (status !== 'active') {
-            setIsListening(false);
-            setCurrentListenerId(null);
-            setError(`Link ${linkInfo.token.substring(0, 8)}... is now ${status}`);
-          }
-        }
-      });
-      
-      setIsListening(true);
-      setCurrentListenerId(listenerId);
-      
-    } catch (error) {
-      setError(error instanceof Error ? error.message : 'Failed to start listening');
-    }
-  }, [linkUrl, sdk]);
+  const handleStartListening = useCallback(() => {
+    setActiveUrl(linkUrl.trim());
+  }, [linkUrl]);
 
   const handleStopListening = useCallback(() => {
-    if (currentListenerId) {
-      sdk.stopListening(currentListenerId);
-      setIsListening(false);
-      setCurrentListenerId(null);
-    }
-  }, [currentListenerId, sdk]);
-
-  const clearMessages = useCallback(() => {
-    setMessages([]);
+    setActiveUrl(null);
   }, []);
 
   const requestNotificationPermission = useCallback(async () => {
@@ -93,13 +57,6 @@ export function ReactSecretLinksExample() {
     }
   }, []);
 
-  // Clean up on unmount
-  useEffect(() => {
-    return () => {
-      sdk.stopAll();
-    };
-  }, [sdk]);
-
   return (
     <div className="max-w-4xl mx-auto p-6 space-y-6">
       <div className="bg-white dark:bg-gray-900 rounded-lg shadow-lg p-6">
@@ -131,7 +88,7 @@ export function ReactSecretLinksExample() {
           <div className="flex gap-3 flex-wrap">
             <button
               onClick={handleStartListening}
-              disabled={isListening || !linkUrl.trim()}
+              disabled={isListening || !validation.isValid}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg
                        disabled:opacity-50 disabled:cursor-not-allowed
                        transition-colors duration-200"
@@ -149,16 +106,6 @@ export function ReactSecretLinksExample() {
               Stop Listening
             </button>
             
-            <button
-              onClick={clearMessages}
-              disabled={messages.length === 0}
-              className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg
-                       disabled:opacity-50 disabled:cursor-not-allowed
-                       transition-colors duration-200"
-            >
-              Clear Messages ({messages.length})
-            </button>
-
             <button
               onClick={requestNotificationPermission}
               className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg
@@ -169,11 +116,11 @@ export function ReactSecretLinksExample() {
           </div>
 
           {/* Error Display */}
-          {error && (
+          {visibleError && (
             <div className="p-4 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-lg">
-              <p className="text-red-800 dark:text-red-200">{error}</p>
+              <p className="text-red-800 dark:text-red-200">{visibleError}</p>
               <button
-                onClick={() => setError(null)}
+                onClick={() => setDismissedError(error)}
                 className="mt-2 text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
               >
                 Dismiss
@@ -185,10 +132,10 @@ export function ReactSecretLinksExample() {
           {isListening && (
             <div className="p-4 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-lg">
               <p className="text-green-800 dark:text-green-200">
-                🟢 Listening to link: {linkUrl}
+                🟢 Listening to link: {activeUrl}
               </p>
               <p className="text-sm text-green-600 dark:text-green-400 mt-1">
-                Listener ID: {currentListenerId}
+                Link status: {status || 'connecting'}
               </p>
             </div>
           )}
@@ -207,35 +154,32 @@ export function ReactSecretLinksExample() {
           </p>
         ) : (
           <div className="space-y-4 max-h-96 overflow-y-auto">
-            {messages.map((message) => (
-              <div key={message.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+            {messages.map((payload) => (
+              <div key={`${payload.id ?? ''}-${payload.timestamp}`} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
                 <div className="flex justify-between items-start mb-2">
                   <div className="flex items-center gap-2">
                     <span className={`px-2 py-1 rounded text-xs font-medium ${
-                      message.payload.type === 'ping' 
+                      payload.type === 'ping' 
                         ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
                         : 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
                     }`}>
-                      {message.payload.type}
-                    </span>
-                    <span className="text-sm text-gray-500 dark:text-gray-400">
-                      from {message.linkInfo.token.substring(0, 8)}...
+                      {payload.type}
                     </span>
                   </div>
                   <time className="text-sm text-gray-500 dark:text-gray-400">
-                    {new Date(message.timestamp).toLocaleTimeString()}
+                    {new Date(payload.timestamp).toLocaleTimeString()}
                   </time>
                 </div>
                 
                 <div className="bg-gray-50 dark:bg-gray-800 rounded p-3">
                   <pre className="text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap overflow-x-auto">
-                    {JSON.stringify(message.payload.data, null, 2)}
+                    {JSON.stringify(payload.data, null, 2)}
                   </pre>
                 </div>
                 
-                {message.payload.metadata && (
+                {payload.metadata && (
                   <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-                    <strong>Metadata:</strong> {JSON.stringify(message.payload.metadata)}
+                    <strong>Metadata:</strong> {JSON.stringify(payload.metadata)}
                   </div>
                 )}
               </div>
@@ -1,13 +1,23 @@
+import path from 'path';
 import typescript from '@rollup/plugin-typescript';
 import resolve from '@rollup/plugin-node-resolve';
 import terser from '@rollup/plugin-terser';
 
 const production = !process.env.ROLLUP_WATCH;
 
+// Node-only modules loaded lazily (FileStorageAdapter)
+const external = ['fs/promises'];
+
+// The framework bindings import the core from the main entry point, so an app
+// gets one copy of the SDK, its error classes and the custom element
+const coreEntry = path.resolve('src/index.ts');
+const corePaths = { [coreEntry]: 'secret-links-sdk' };
+
 export default [
   // ES Module build
   {
     input: 'src/index.ts',
+    external,
     output: {
       file: 'dist/secret-links-sdk.esm.js',
       format: 'es',
@@ -30,6 +40,7 @@ export default [
   // UMD build for browsers
   {
     input: 'src/index.ts',
+    external,
     output: {
       file: 'dist/secret-links-sdk.js',
       format: 'umd',
@@ -51,6 +62,7 @@ export default [
   // Minified UMD build for CDN
   {
     input: 'src/index.ts',
+    external,
     output: {
       file: 'dist/secret-links-sdk.min.js',
       format: 'umd',
@@ -75,5 +87,102 @@ export default [
         }
       })
     ]
+  },
+
+  // Server helpers for Node.js backends (secret-links-sdk/server)
+  {
+    input: 'src/server/index.ts',
+    external: ['http'],
+    output: [
+      {
+        file: 'dist/server.esm.js',
+        format: 'es',
+        sourcemap: true
+      },
+      {
+        file: 'dist/server.cjs',
+        format: 'cjs',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      typescript({
+        declaration: false
+      })
+    ]
+  },
+
+  // React provider and hooks (secret-links-sdk/react)
+  {
+    input: 'src/react/index.ts',
+    external: [...external, 'react', coreEntry],
+    makeAbsoluteExternalsRelative: false,
+    output: [
+      {
+        file: 'dist/react.esm.js',
+        format: 'es',
+        paths: corePaths,
+        sourcemap: true
+      },
+      {
+        file: 'dist/react.cjs',
+        format: 'cjs',
+        paths: corePaths,
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      typescript({
+        declaration: false
+      })
+    ]
+  },
+
+  // Vue plugin and composables (secret-links-sdk/vue)
+  {
+    input: 'src/vue/index.ts',
+    external: [...external, 'vue', coreEntry],
+    makeAbsoluteExternalsRelative: false,
+    output: [
+      {
+        file: 'dist/vue.esm.js',
+        format: 'es',
+        paths: corePaths,
+        sourcemap: true
+      },
+      {
+        file: 'dist/vue.cjs',
+        format: 'cjs',
+        paths: corePaths,
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      typescript({
+        declaration: false
+      })
+    ]
+  },
+
+  // Mock polling endpoint for integration tests (secret-links-sdk/testing)
+  {
+    input: 'src/testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing.esm.js',
+        format: 'es',
+        sourcemap: true
+      },
+      {
+        file: 'dist/testing.cjs',
+        format: 'cjs',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      typescript({
+        declaration: false
+      })
+    ]
   }
-];
\ No newline at end of file
+];
@@ -0,0 +1,87 @@
+import { AdaptivePoller } from '../adaptive-poller';
+
+describe('AdaptivePoller', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should back off by 1.5x after three empty polls by default', () => {
+    const adaptive = new AdaptivePoller('token', 'ping');
+
+    for (let i = 0; i < 4; i++) {
+      adaptive.adjustInterval(false);
+    }
+
+    expect(adaptive.getInterval()).toBe(22500);
+  });
+
+  it('should grow linearly when configured', () => {
+    const adaptive = new AdaptivePoller('token', 'ping', false, {
+      strategy: 'linear',
+      increment: 5000,
+      emptyPollThreshold: 1,
+      maxInterval: 18000
+    });
+
+    adaptive.adjustInterval(false);
+    expect(adaptive.getInterval()).toBe(15000);
+    adaptive.adjustInterval(false);
+    expect(adaptive.getInterval()).toBe(18000);
+  });
+
+  it('should back off errors separately from empty polls', () => {
+    const adaptive = new AdaptivePoller('token', 'ping', false, {
+      errorBackoff: { initialDelay: 1000, multiplier: 3, maxDelay: 5000 }
+    });
+
+    expect([adaptive.recordFailure(), adaptive.recordFailure(), adaptive.recordFailure()]).toEqual([1000, 3000, 5000]);
+    expect(adaptive.getInterval()).toBe(10000);
+    expect(adaptive.getConsecutiveFailures()).toBe(3);
+
+    adaptive.adjustInterval(false);
+    expect(adaptive.getConsecutiveFailures()).toBe(0);
+  });
+
+  it('should honour Retry-After unless disabled', () => {
+    expect(new AdaptivePoller('token', 'ping').recordFailure(42000)).toBe(42000);
+    expect(new AdaptivePoller('token', 'ping', false, { respectRetryAfter: false }).recordFailure(42000)).toBe(10000);
+  });
+
+  it('should apply jitter within the configured fraction', () => {
+    const adaptive = new AdaptivePoller('token', 'ping', false, { jitter: 0.2 });
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(adaptive.getNextDelay()).toBe(8000);
+    (Math.random as jest.Mock).mockReturnValue(0.999999);
+    expect(adaptive.getNextDelay()).toBe(12000);
+  });
+
+  it('should report exhausted retries', () => {
+    const adaptive = new AdaptivePoller('token', 'ping', false, { maxConsecutiveFailures: 2 });
+
+    adaptive.recordFailure();
+    expect(adaptive.hasExhaustedRetries()).toBe(false);
+    adaptive.recordFailure();
+    expect(adaptive.hasExhaustedRetries()).toBe(true);
+  });
+
+  it('should use the configured base interval within min and max bounds', () => {
+    const adaptive = new AdaptivePoller('token', 'webhook', false, {}, { interval: 2000, minInterval: 1500, maxInterval: 4000 });
+
+    expect(adaptive.getInterval()).toBe(2000);
+    adaptive.adjustInterval(false, 500);
+    expect(adaptive.getInterval()).toBe(1500);
+    adaptive.adjustInterval(false, 60000);
+    expect(adaptive.getInterval()).toBe(4000);
+  });
+
+  it('should keep a fixed interval when adaptive is off', () => {
+    const adaptive = new AdaptivePoller('token', 'ping', false, {}, { interval: 3000, adaptive: false });
+
+    for (let i = 0; i < 5; i++) {
+      adaptive.adjustInterval(false, 30000);
+    }
+
+    expect(adaptive.getInterval()).toBe(3000);
+  });
+});
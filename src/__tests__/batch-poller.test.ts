@@ -0,0 +1,151 @@
+import { BatchPoller } from '../batch-poller';
+import { LinkPoller } from '../link-poller';
+import { parseLink } from '../utils';
+import { BatchPollRequest } from '../types';
+import { HttpError, InvalidResponseError } from '../errors';
+
+function mockBatchResponse(responses: unknown[]) {
+  (fetch as jest.Mock).mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => ({ responses })
+  });
+}
+
+describe('BatchPoller', () => {
+  beforeEach(() => {
+    (fetch as jest.Mock).mockReset();
+  });
+
+  it('should send due polls from several listeners in one request', async () => {
+    const batcher = new BatchPoller({ endpoint: 'https://example.com/api/poll/batch', batchWindow: 10 });
+    const onPayloadA = jest.fn();
+    const onPayloadB = jest.fn();
+    mockBatchResponse([
+      { hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp: 1, data: 'a' } },
+      { hasNewContent: false, linkStatus: 'expired' }
+    ]);
+
+    const pollerA = new LinkPoller(parseLink('https://secret.annai.ai/link/aaaaaaaaaaaaaaaaaaaa'), {
+      endpoint: 'https://example.com/api/poll',
+      interval: 10000,
+      callbacks: { onPayload: onPayloadA },
+      batcher
+    });
+    const onStatusChangeB = jest.fn();
+    const pollerB = new LinkPoller(parseLink('https://secret.annai.ai/link/bbbbbbbbbbbbbbbbbbbb'), {
+      endpoint: 'https://example.com/api/poll',
+      interval: 10000,
+      callbacks: { onPayload: onPayloadB, onStatusChange: onStatusChangeB },
+      batcher
+    });
+
+    await Promise.all([pollerA.start(), pollerB.start()]);
+    pollerA.stop();
+    pollerB.stop();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [url, init] = (fetch as jest.Mock).mock.calls[0];
+    const body: BatchPollRequest = JSON.parse(init.body);
+    expect(url).toBe('https://example.com/api/poll/batch');
+    expect(body.requests.map((request) => request.token)).toEqual([
+      'aaaaaaaaaaaaaaaaaaaa',
+      'bbbbbbbbbbbbbbbbbbbb'
+    ]);
+    expect(onPayloadA).toHaveBeenCalledWith(expect.objectContaining({ data: 'a' }), expect.anything());
+    expect(onPayloadB).not.toHaveBeenCalled();
+    expect(onStatusChangeB).toHaveBeenCalledWith('expired', expect.anything());
+  });
+
+  it('should flush immediately when maxBatchSize is reached', async () => {
+    const batcher = new BatchPoller({ endpoint: 'https://example.com/api/poll', batchWindow: 60000, maxBatchSize: 2 });
+    mockBatchResponse([
+      { hasNewContent: false, linkStatus: 'active' },
+      { hasNewContent: false, linkStatus: 'active' }
+    ]);
+
+    const results = await Promise.all([
+      batcher.enqueue({ token: 'a', type: 'ping' }),
+      batcher.enqueue({ token: 'b', type: 'ping' })
+    ]);
+
+    expect(results).toHaveLength(2);
+    expect(batcher.getQueueSize()).toBe(0);
+  });
+
+  it('should reject every queued request when the batch fails', async () => {
+    const batcher = new BatchPoller({ endpoint: 'https://example.com/api/poll', batchWindow: 10 });
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 502, statusText: 'Bad Gateway' });
+
+    const results = await Promise.allSettled([
+      batcher.enqueue({ token: 'a', type: 'ping' }),
+      batcher.enqueue({ token: 'b', type: 'ping' })
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('should tag a failed batch with the listener ID of each poller', async () => {
+    const batcher = new BatchPoller({ endpoint: 'https://example.com/api/poll', batchWindow: 10 });
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 502, statusText: 'Bad Gateway' });
+    const pollers = ['aaaaaaaaaaaaaaaaaaaa', 'bbbbbbbbbbbbbbbbbbbb'].map((token, index) => {
+      const onError = jest.fn();
+      const poller = new LinkPoller(parseLink(`https://secret.annai.ai/link/${token}`), {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onError },
+        listenerId: `listener-${index}`,
+        batcher
+      });
+      return { poller, onError };
+    });
+
+    await Promise.all(pollers.map(({ poller }) => poller.start()));
+    pollers.forEach(({ poller }) => poller.stop());
+
+    expect(pollers.map(({ onError }) => onError.mock.calls[0][0].listenerId)).toEqual(['listener-0', 'listener-1']);
+    expect(pollers[1].onError.mock.calls[0][0]).toBeInstanceOf(HttpError);
+  });
+
+  it('should reject responses that do not match the batch size', async () => {
+    const batcher = new BatchPoller({ endpoint: 'https://example.com/api/poll', batchWindow: 10 });
+    mockBatchResponse([{ hasNewContent: false, linkStatus: 'active' }]);
+
+    await expect(Promise.all([
+      batcher.enqueue({ token: 'a', type: 'ping' }),
+      batcher.enqueue({ token: 'b', type: 'ping' })
+    ])).rejects.toThrow(new InvalidResponseError(['responses: expected 2 responses, got 1']));
+  });
+
+  it('should reject batch bodies that are not objects with a responses array', async () => {
+    const batcher = new BatchPoller({ endpoint: 'https://example.com/api/poll', batchWindow: 10 });
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK', json: async () => null })
+      .mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK', json: async () => ({ responses: 'none' }) });
+
+    const nullBody = batcher.enqueue({ token: 'a', type: 'ping' }).catch((error) => error);
+    await expect(nullBody).resolves.toBeInstanceOf(InvalidResponseError);
+    await expect(nullBody).resolves.toMatchObject({ issues: ['response: expected an object'] });
+
+    await expect(batcher.enqueue({ token: 'a', type: 'ping' })).rejects.toMatchObject({
+      code: 'INVALID_RESPONSE',
+      issues: ['responses: expected an array']
+    });
+  });
+
+  it('should drop aborted requests from the queue', async () => {
+    const batcher = new BatchPoller({ endpoint: 'https://example.com/api/poll', batchWindow: 10 });
+    const controller = new AbortController();
+    mockBatchResponse([{ hasNewContent: false, linkStatus: 'active' }]);
+
+    const aborted = batcher.enqueue({ token: 'a', type: 'ping' }, controller.signal);
+    const kept = batcher.enqueue({ token: 'b', type: 'ping' });
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+    await expect(kept).resolves.toEqual({ hasNewContent: false, linkStatus: 'active' });
+    const body: BatchPollRequest = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body.requests.map((request) => request.token)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,112 @@
+import { CircuitBreaker } from '../circuit-breaker';
+import { LinkPoller } from '../link-poller';
+import { parseLink } from '../utils';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (fetch as jest.Mock).mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after the failure threshold and let one trial through after the reset timeout', () => {
+    const onStateChange = jest.fn();
+    const breaker = new CircuitBreaker({
+      endpoint: 'https://example.com/api/poll',
+      failureThreshold: 2,
+      resetTimeout: 5000,
+      onStateChange
+    });
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.retryIn()).toBe(5000);
+
+    jest.advanceTimersByTime(5000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(onStateChange.mock.calls.map(([state]) => state)).toEqual(['open', 'half-open', 'closed']);
+    expect(onStateChange).toHaveBeenCalledWith('open', 'https://example.com/api/poll');
+  });
+
+  it('should re-open when the trial request fails', () => {
+    const breaker = new CircuitBreaker({ endpoint: 'https://example.com/api/poll', failureThreshold: 1, resetTimeout: 1000 });
+
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.retryIn()).toBe(1000);
+  });
+
+  it('should not let callers spin while a trial is in flight with a zero resetTimeout', () => {
+    const breaker = new CircuitBreaker({ endpoint: 'https://example.com/api/poll', failureThreshold: 1, resetTimeout: 0 });
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    expect(breaker.retryIn()).toBe(100);
+  });
+
+  it('should pause every poller sharing the breaker while open', async () => {
+    (fetch as jest.Mock).mockRejectedValue(new Error('ECONNREFUSED'));
+    const breaker = new CircuitBreaker({ endpoint: 'https://example.com/api/poll', failureThreshold: 2, resetTimeout: 60000 });
+    const pollers = ['abc123def456ghi789', 'zzz123def456ghi789'].map((token) =>
+      new LinkPoller(parseLink(`https://secret.annai.ai/link/${token}`), {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onError: jest.fn() },
+        circuitBreaker: breaker
+      })
+    );
+
+    await Promise.all(pollers.map((poller) => poller.start()));
+    expect(breaker.getState()).toBe('open');
+
+    await jest.advanceTimersByTimeAsync(59000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    // One trial request once the reset timeout has passed
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    pollers.forEach((poller) => poller.stop());
+  });
+
+  it('should let another poller make the trial when the trial poller stops', async () => {
+    (fetch as jest.Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    const breaker = new CircuitBreaker({ endpoint: 'https://example.com/api/poll', failureThreshold: 1, resetTimeout: 5000 });
+    const createPoller = (token: string) => new LinkPoller(parseLink(`https://secret.annai.ai/link/${token}`), {
+      endpoint: 'https://example.com/api/poll',
+      interval: 10000,
+      callbacks: { onError: jest.fn() },
+      circuitBreaker: breaker,
+      requestTimeout: 0
+    });
+    const first = createPoller('abc123def456ghi789');
+    await first.start();
+    expect(breaker.getState()).toBe('open');
+
+    // The trial request hangs until the poller stops
+    (fetch as jest.Mock).mockReturnValueOnce(new Promise(() => {}));
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(breaker.getState()).toBe('half-open');
+    first.stop();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
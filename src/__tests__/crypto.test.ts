@@ -0,0 +1,53 @@
+import { base64UrlEncode, decryptPayload, encryptPayload, isEncryptedEnvelope } from '../crypto';
+import { DecryptionError } from '../errors';
+
+function generateKey(bytes = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+describe('encryptPayload / decryptPayload', () => {
+  it('should round-trip JSON data', async () => {
+    const key = generateKey();
+    const envelope = await encryptPayload({ message: 'hello', count: 3 }, key);
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(envelope.v).toBe(1);
+    expect(envelope.alg).toBe('AES-GCM');
+
+    await expect(decryptPayload(envelope, key)).resolves.toEqual({ message: 'hello', count: 3 });
+  });
+
+  it('should support 128-bit keys', async () => {
+    const key = generateKey(16);
+    const envelope = await encryptPayload('short key', key);
+
+    await expect(decryptPayload(envelope, key)).resolves.toBe('short key');
+  });
+
+  it('should reject a wrong key with DecryptionError', async () => {
+    const envelope = await encryptPayload({ secret: true }, generateKey());
+
+    await expect(decryptPayload(envelope, generateKey())).rejects.toBeInstanceOf(DecryptionError);
+  });
+
+  it('should reject tampered ciphertext', async () => {
+    const key = generateKey();
+    const envelope = await encryptPayload({ secret: true }, key);
+    const tampered = { ...envelope, ciphertext: envelope.ciphertext.slice(0, -4) + 'AAAA' };
+
+    await expect(decryptPayload(tampered, key)).rejects.toThrow('wrong key or corrupted ciphertext');
+  });
+
+  it('should reject keys of invalid length', async () => {
+    await expect(encryptPayload('data', generateKey(10))).rejects.toThrow('must be 128, 192 or 256 bits');
+  });
+});
+
+describe('isEncryptedEnvelope', () => {
+  it('should reject non-envelope values', () => {
+    expect(isEncryptedEnvelope(null)).toBe(false);
+    expect(isEncryptedEnvelope('ciphertext')).toBe(false);
+    expect(isEncryptedEnvelope({ iv: 'a', ciphertext: 'b' })).toBe(false);
+    expect(isEncryptedEnvelope({ v: 2, alg: 'AES-GCM', iv: 'a', ciphertext: 'b' })).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { EventEmitter } from '../event-emitter';
+
+interface TestEvents {
+  tick: [count: number];
+  error: [error: Error];
+}
+
+describe('EventEmitter', () => {
+  let emitter: EventEmitter<TestEvents>;
+
+  beforeEach(() => {
+    emitter = new EventEmitter<TestEvents>();
+  });
+
+  it('should call every handler in subscription order', () => {
+    const calls: string[] = [];
+    emitter.on('tick', (count) => calls.push(`a${count}`));
+    emitter.on('tick', (count) => calls.push(`b${count}`));
+
+    expect(emitter.emit('tick', 1)).toBe(true);
+    expect(calls).toEqual(['a1', 'b1']);
+  });
+
+  it('should remove handlers with off and the returned function', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    emitter.on('tick', first);
+    const unsubscribe = emitter.on('tick', second);
+
+    emitter.off('tick', first);
+    unsubscribe();
+
+    expect(emitter.emit('tick', 1)).toBe(false);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should call once handlers a single time', () => {
+    const handler = jest.fn();
+    emitter.once('tick', handler);
+
+    emitter.emit('tick', 1);
+    emitter.emit('tick', 2);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(1);
+    expect(emitter.listenerCount('tick')).toBe(0);
+  });
+
+  it('should keep calling handlers after one throws', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handler = jest.fn();
+    emitter.on('tick', () => {
+      throw new Error('boom');
+    });
+    emitter.on('tick', handler);
+
+    emitter.emit('tick', 1);
+
+    expect(handler).toHaveBeenCalledWith(1);
+    expect(consoleError).toHaveBeenCalledWith('[SecretLinksSDK] "tick" handler failed', expect.any(Error));
+    consoleError.mockRestore();
+  });
+
+  it('should remove all handlers of one or every event', () => {
+    emitter.on('tick', jest.fn());
+    emitter.on('error', jest.fn());
+
+    emitter.removeAllListeners('tick');
+    expect(emitter.listenerCount('tick')).toBe(0);
+    expect(emitter.listenerCount('error')).toBe(1);
+
+    emitter.removeAllListeners();
+    expect(emitter.listenerCount('error')).toBe(0);
+  });
+});
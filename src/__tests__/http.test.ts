@@ -0,0 +1,209 @@
+import { HttpClient } from '../http';
+import { AbortError, HttpError, InvalidResponseError } from '../errors';
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status >= 200 && status < 300, status, statusText: status === 200 ? 'OK' : 'Error', json: async () => body };
+}
+
+describe('HttpClient', () => {
+  const url = 'https://example.com/api/poll';
+  let fetchImpl: jest.Mock;
+
+  beforeEach(() => {
+    (fetch as jest.Mock).mockReset();
+    fetchImpl = jest.fn().mockResolvedValue(jsonResponse({ hasNewContent: false, linkStatus: 'active' }));
+  });
+
+  it('should send requests through the configured fetch', async () => {
+    const client = new HttpClient({ apiKey: 'key-1', fetch: fetchImpl });
+
+    const result = await client.postJson(url, { token: 'abc' });
+
+    expect(result).toEqual({ hasNewContent: false, linkStatus: 'active' });
+    expect(fetch).not.toHaveBeenCalled();
+    expect(fetchImpl).toHaveBeenCalledWith(url, expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer key-1' }),
+      body: JSON.stringify({ token: 'abc' })
+    }));
+  });
+
+  it('should pass requests through onRequest interceptors in order', async () => {
+    const client = new HttpClient({
+      fetch: fetchImpl,
+      interceptors: [
+        { onRequest: (request) => ({ ...request, headers: { ...request.headers, 'X-CSRF-Token': 'csrf' } }) },
+        { onRequest: () => undefined },
+        {
+          onRequest: async (request) => ({
+            ...request,
+            url: `${request.url}?signed=1`,
+            body: { ...(request.body as object), signature: 'sig' }
+          })
+        }
+      ]
+    });
+
+    await client.postJson(url, { token: 'abc' });
+
+    const [sentUrl, init] = fetchImpl.mock.calls[0];
+    expect(sentUrl).toBe(`${url}?signed=1`);
+    expect(init.headers['X-CSRF-Token']).toBe('csrf');
+    expect(JSON.parse(init.body)).toEqual({ token: 'abc', signature: 'sig' });
+  });
+
+  it('should let onResponse interceptors transform the body', async () => {
+    fetchImpl.mockResolvedValueOnce(jsonResponse({ state: 'gone', items: [] }));
+    const onResponse = jest.fn((data: unknown) => {
+      const body = data as { state: string };
+      return { hasNewContent: false, linkStatus: body.state === 'gone' ? 'deleted' : 'active' };
+    });
+    const client = new HttpClient({ fetch: fetchImpl, interceptors: [{ onResponse }, { onResponse: () => undefined }] });
+
+    const result = await client.postJson(url, {});
+
+    expect(result).toEqual({ hasNewContent: false, linkStatus: 'deleted' });
+    expect(onResponse).toHaveBeenCalledWith(
+      { state: 'gone', items: [] },
+      expect.objectContaining({ status: 200 }),
+      expect.objectContaining({ url })
+    );
+  });
+
+  it('should recover from errors an onError interceptor handles', async () => {
+    fetchImpl.mockResolvedValueOnce(jsonResponse(null, 410));
+    const client = new HttpClient({
+      fetch: fetchImpl,
+      interceptors: [
+        { onError: () => undefined },
+        {
+          onError: (error) => (error instanceof HttpError && error.status === 410
+            ? { hasNewContent: false, linkStatus: 'expired' }
+            : undefined)
+        }
+      ]
+    });
+
+    await expect(client.postJson(url, {})).resolves.toEqual({ hasNewContent: false, linkStatus: 'expired' });
+  });
+
+  it('should pass on errors thrown by onError interceptors', async () => {
+    fetchImpl.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const seen: string[] = [];
+    const client = new HttpClient({
+      fetch: fetchImpl,
+      interceptors: [
+        {
+          onError: (error) => {
+            seen.push(error.name);
+            throw new Error('Endpoint offline');
+          }
+        },
+        {
+          onError: (error) => {
+            seen.push(error.message);
+          }
+        }
+      ]
+    });
+
+    await expect(client.postJson(url, {})).rejects.toThrow('Endpoint offline');
+    expect(seen).toEqual(['NetworkError', 'Endpoint offline']);
+  });
+
+  it('should report bodies that are not JSON as InvalidResponseError', async () => {
+    fetchImpl.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => JSON.parse('<html>Maintenance</html>')
+    });
+    const client = new HttpClient({ fetch: fetchImpl });
+
+    const error = await client.postJson<never>(url, {}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.issues).toEqual(['response: expected JSON']);
+    expect(error.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it('should not offer cancelled requests to onError interceptors', async () => {
+    fetchImpl.mockReturnValueOnce(new Promise(() => {}));
+    const onError = jest.fn();
+    const client = new HttpClient({ fetch: fetchImpl, interceptors: [{ onError }] });
+    const controller = new AbortController();
+
+    const request = client.postJson(url, {}, { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(AbortError);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  describe('auth tokens', () => {
+    const authorization = (call: number) => fetchImpl.mock.calls[call][1].headers.Authorization;
+
+    it('should get a token once and cache it', async () => {
+      const getAuthToken = jest.fn().mockResolvedValue('token-1');
+      const client = new HttpClient({ fetch: fetchImpl, getAuthToken });
+
+      await Promise.all([client.postJson(url, {}), client.postJson(url, {})]);
+      await client.postJson(url, {});
+
+      expect(getAuthToken).toHaveBeenCalledTimes(1);
+      expect(authorization(2)).toBe('Bearer token-1');
+    });
+
+    it('should refresh the token once for concurrent 401 responses and retry', async () => {
+      const getAuthToken = jest.fn().mockResolvedValueOnce('expired').mockResolvedValueOnce('fresh');
+      fetchImpl
+        .mockResolvedValueOnce(jsonResponse(null, 401))
+        .mockResolvedValueOnce(jsonResponse(null, 401));
+      const client = new HttpClient({ fetch: fetchImpl, getAuthToken });
+
+      const results = await Promise.all([client.postJson(url, {}), client.postJson(url, {})]);
+
+      expect(results).toEqual([
+        { hasNewContent: false, linkStatus: 'active' },
+        { hasNewContent: false, linkStatus: 'active' }
+      ]);
+      expect(getAuthToken).toHaveBeenCalledTimes(2);
+      expect([authorization(2), authorization(3)]).toEqual(['Bearer fresh', 'Bearer fresh']);
+    });
+
+    it('should retry only once', async () => {
+      const getAuthToken = jest.fn().mockResolvedValue('rejected');
+      fetchImpl.mockResolvedValue(jsonResponse(null, 401));
+      const client = new HttpClient({ fetch: fetchImpl, getAuthToken });
+
+      await expect(client.postJson(url, {})).rejects.toMatchObject({ status: 401 });
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the initial apiKey until it is rejected', async () => {
+      const getAuthToken = jest.fn().mockResolvedValue('token-1');
+      fetchImpl.mockResolvedValueOnce(jsonResponse(null, 401));
+      const client = new HttpClient({ fetch: fetchImpl, apiKey: 'key-1', getAuthToken });
+
+      await client.postJson(url, {});
+
+      expect([authorization(0), authorization(1)]).toEqual(['Bearer key-1', 'Bearer token-1']);
+    });
+
+    it('should keep a key set while a refresh was running', async () => {
+      let resolveToken!: (token: string) => void;
+      const getAuthToken = jest.fn(() => new Promise<string>((resolve) => {
+        resolveToken = resolve;
+      }));
+      const client = new HttpClient({ fetch: fetchImpl, getAuthToken });
+
+      const request = client.postJson(url, {});
+      client.setApiKey('rotated');
+      resolveToken('late');
+      await request;
+      await client.postJson(url, {});
+
+      expect(authorization(1)).toBe('Bearer rotated');
+    });
+  });
+});
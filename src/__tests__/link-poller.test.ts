@@ -0,0 +1,686 @@
+import { LinkPoller } from '../link-poller';
+import { parseLink } from '../utils';
+import { base64UrlEncode, encryptPayload } from '../crypto';
+import {
+  DecryptionError,
+  HttpError,
+  InvalidResponseError,
+  NetworkError,
+  RetriesExhaustedError,
+  ServerError,
+  TimeoutError
+} from '../errors';
+import { PollResponse } from '../types';
+import { EnvironmentMonitor } from '../environment';
+
+function mockPollResponse(body: PollResponse) {
+  (fetch as jest.Mock).mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => body
+  });
+}
+
+describe('LinkPoller', () => {
+  beforeEach(() => {
+    (fetch as jest.Mock).mockReset();
+  });
+
+  describe('encrypted links', () => {
+    const key = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+    const linkInfo = parseLink(`https://secret.annai.ai/link/abc123def456ghi789#${key}`);
+
+    it('should decrypt payload data before calling onPayload', async () => {
+      const onPayload = jest.fn();
+      const envelope = await encryptPayload({ message: 'hi' }, key);
+      mockPollResponse({
+        hasNewContent: true,
+        linkStatus: 'active',
+        payload: { type: 'ping', timestamp: 1, data: envelope }
+      });
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onPayload }
+      });
+      await poller.start();
+      poller.stop();
+
+      expect(onPayload).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { message: 'hi' } }),
+        linkInfo
+      );
+    });
+
+    it('should never send the encryption key to the polling endpoint', async () => {
+      mockPollResponse({ hasNewContent: false, linkStatus: 'active' });
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: {}
+      });
+      await poller.start();
+      poller.stop();
+
+      const [, init] = (fetch as jest.Mock).mock.calls[0];
+      expect(init.body).not.toContain(key);
+    });
+
+    it('should report decryption failures through onError', async () => {
+      const onPayload = jest.fn();
+      const onError = jest.fn();
+      const otherKey = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+      mockPollResponse({
+        hasNewContent: true,
+        linkStatus: 'active',
+        payload: { type: 'ping', timestamp: 1, data: await encryptPayload('x', otherKey) }
+      });
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onPayload, onError }
+      });
+      await poller.start();
+      poller.stop();
+
+      expect(onPayload).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(expect.any(DecryptionError), linkInfo);
+    });
+  });
+
+  describe('errors', () => {
+    const linkInfo = parseLink('https://secret.annai.ai/link/abc123def456ghi789');
+
+    async function pollOnce(onError: jest.Mock) {
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onError },
+        listenerId: 'listener-1'
+      });
+      await poller.start();
+      poller.stop();
+      return onError.mock.calls[0][0];
+    }
+
+    it('should report HTTP failures as HttpError with status and listenerId', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' });
+
+      const error = await pollOnce(jest.fn());
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.message).toBe('HTTP 401: Unauthorized');
+      expect(error.status).toBe(401);
+      expect(error.retryable).toBe(false);
+      expect(error.listenerId).toBe('listener-1');
+    });
+
+    it('should mark 5xx responses as retryable', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      const error = await pollOnce(jest.fn());
+
+      expect(error.retryable).toBe(true);
+    });
+
+    it('should report fetch failures as NetworkError', async () => {
+      (fetch as jest.Mock).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      const error = await pollOnce(jest.fn());
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.cause).toBeInstanceOf(TypeError);
+    });
+
+    it('should report server-reported errors as ServerError', async () => {
+      mockPollResponse({ hasNewContent: false, linkStatus: 'active', error: 'upstream unavailable' });
+
+      const error = await pollOnce(jest.fn());
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.serverMessage).toBe('upstream unavailable');
+      expect(error.message).toBe('Server error: upstream unavailable');
+    });
+
+    it('should report malformed responses as InvalidResponseError', async () => {
+      mockPollResponse({ hasNewContent: false, linkStatus: 'archived', nextPollIn: '5' } as unknown as PollResponse);
+
+      const error = await pollOnce(jest.fn());
+
+      expect(error).toBeInstanceOf(InvalidResponseError);
+      expect(error.issues).toEqual([
+        'linkStatus: expected one of active, expired, exhausted, deleted',
+        'nextPollIn: expected a non-negative number'
+      ]);
+      expect(error.retryable).toBe(true);
+      expect(error.listenerId).toBe('listener-1');
+    });
+  });
+
+  describe('payload schema', () => {
+    const linkInfo = parseLink('https://secret.annai.ai/link/abc123def456ghi789');
+
+    function createPoller(callbacks: object) {
+      return new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks
+      });
+    }
+
+    it('should pass the data the schema returns to onPayload', async () => {
+      const onPayload = jest.fn();
+      mockPollResponse({
+        hasNewContent: true,
+        linkStatus: 'active',
+        payload: { id: 'p1', type: 'webhook', timestamp: 1, data: { amount: '12' } }
+      });
+      const schema = { parse: (data: unknown) => ({ amount: Number((data as { amount: string }).amount) }) };
+
+      const poller = createPoller({ onPayload, schema });
+      await poller.start();
+      poller.stop();
+
+      expect(onPayload).toHaveBeenCalledWith(expect.objectContaining({ id: 'p1', data: { amount: 12 } }), linkInfo);
+    });
+
+    it('should report and skip payloads the schema rejects', async () => {
+      const onPayload = jest.fn();
+      const onError = jest.fn();
+      mockPollResponse({
+        hasNewContent: true,
+        linkStatus: 'active',
+        payloads: [
+          { id: 'p1', type: 'webhook', timestamp: 1, data: 'not an order' },
+          { id: 'p2', type: 'webhook', timestamp: 2, data: { order: 7 } }
+        ]
+      });
+      const schema = (data: unknown) => {
+        if (typeof data !== 'object') {
+          throw new Error('Expected an order');
+        }
+        return data;
+      };
+
+      const poller = createPoller({ onPayload, onError, schema });
+      await poller.start();
+      poller.stop();
+
+      expect(onPayload).toHaveBeenCalledTimes(1);
+      expect(onPayload.mock.calls[0][0].id).toBe('p2');
+      const error = onError.mock.calls[0][0];
+      expect(error).toBeInstanceOf(InvalidResponseError);
+      expect(error.issues).toEqual(['data: Expected an order']);
+      expect(error.retryable).toBe(false);
+      expect(poller.getStatus().lastSeen).toBe(2);
+    });
+  });
+
+  describe('delivery', () => {
+    const linkInfo = parseLink('https://secret.annai.ai/link/abc123def456ghi789');
+    const payload = { id: 'p-1', type: 'ping' as const, timestamp: 1700000000000, data: 'hello' };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function requestBody(call: number) {
+      return JSON.parse((fetch as jest.Mock).mock.calls[call][1].body);
+    }
+
+    it('should skip duplicates, acknowledge delivered payloads and track the server cursor', async () => {
+      const onPayload = jest.fn();
+      mockPollResponse({ hasNewContent: true, linkStatus: 'active', payload, cursor: 'c-1', nextPollIn: 1000 });
+      mockPollResponse({ hasNewContent: true, linkStatus: 'active', payload, cursor: 'c-1', nextPollIn: 1000 });
+      mockPollResponse({ hasNewContent: false, linkStatus: 'active', nextPollIn: 1000 });
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onPayload }
+      });
+      await poller.start();
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+      poller.stop();
+
+      expect(onPayload).toHaveBeenCalledTimes(1);
+      expect(requestBody(1)).toEqual(expect.objectContaining({
+        ack: ['p-1'],
+        cursor: 'c-1',
+        lastSeen: payload.timestamp
+      }));
+      // The re-sent duplicate is acknowledged again
+      expect(requestBody(2).ack).toEqual(['p-1']);
+    });
+
+    it('should deliver multiple payloads in timestamp order', async () => {
+      const onPayload = jest.fn();
+      mockPollResponse({
+        hasNewContent: true,
+        linkStatus: 'active',
+        payload: { id: 'c', type: 'webhook', timestamp: 30, data: 3 },
+        payloads: [
+          { id: 'b', type: 'webhook', timestamp: 20, data: 2 },
+          { id: 'a', type: 'webhook', timestamp: 10, data: 1 }
+        ]
+      });
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onPayload }
+      });
+      await poller.start();
+      poller.stop();
+
+      expect(onPayload.mock.calls.map(([delivered]) => delivered.data)).toEqual([1, 2, 3]);
+      expect(poller.getStatus().lastSeen).toBe(30);
+    });
+
+    it('should poll again immediately when the server has more payloads', async () => {
+      mockPollResponse({ hasNewContent: true, linkStatus: 'active', payloads: [payload], hasMore: true });
+      mockPollResponse({ hasNewContent: false, linkStatus: 'active' });
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: {}
+      });
+      await poller.start();
+      await jest.advanceTimersByTimeAsync(0);
+      poller.stop();
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(requestBody(1).ack).toEqual(['p-1']);
+    });
+
+    it('should re-offer payloads whose handler rejects in at-least-once mode', async () => {
+      const onError = jest.fn();
+      const onPayload = jest.fn()
+        .mockRejectedValueOnce(new Error('database busy'))
+        .mockResolvedValueOnce(undefined);
+      mockPollResponse({ hasNewContent: true, linkStatus: 'active', payload, cursor: 'c-1', nextPollIn: 1000 });
+      mockPollResponse({ hasNewContent: true, linkStatus: 'active', payload, cursor: 'c-1', nextPollIn: 1000 });
+      mockPollResponse({ hasNewContent: false, linkStatus: 'active', nextPollIn: 1000 });
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onPayload, onError },
+        delivery: 'at-least-once'
+      });
+      await poller.start();
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'database busy' }), linkInfo);
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+      poller.stop();
+
+      expect(requestBody(1).ack).toBeUndefined();
+      expect(requestBody(1).cursor).toBeUndefined();
+      expect(onPayload).toHaveBeenCalledTimes(2);
+      expect(requestBody(2)).toEqual(expect.objectContaining({ ack: ['p-1'], cursor: 'c-1' }));
+    });
+  });
+
+  describe('retry policy', () => {
+    const linkInfo = parseLink('https://secret.annai.ai/link/abc123def456ghi789');
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should wait for the Retry-After delay of a 429 response', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: { get: (name: string) => (name === 'Retry-After' ? '120' : null) }
+      });
+      mockPollResponse({ hasNewContent: false, linkStatus: 'active' });
+      const onError = jest.fn();
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onError }
+      });
+      await poller.start();
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 429, retryAfter: 120000 }), linkInfo);
+      await jest.advanceTimersByTimeAsync(119999);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      poller.stop();
+    });
+
+    it('should stop after maxConsecutiveFailures', async () => {
+      (fetch as jest.Mock).mockRejectedValue(new Error('ECONNREFUSED'));
+      const onError = jest.fn();
+      const onGiveUp = jest.fn();
+
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: { onError },
+        retryPolicy: { maxConsecutiveFailures: 3, errorBackoff: { initialDelay: 1000 } },
+        listenerId: 'listener-1',
+        onGiveUp
+      });
+      await poller.start();
+      await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(poller.getStatus().isRunning).toBe(false);
+      const [giveUpError] = onGiveUp.mock.calls[0];
+      expect(giveUpError).toBeInstanceOf(RetriesExhaustedError);
+      expect(giveUpError).toEqual(expect.objectContaining({ attempts: 3, listenerId: 'listener-1' }));
+      expect(onError).toHaveBeenLastCalledWith(giveUpError, linkInfo);
+    });
+  });
+
+  describe('background polling', () => {
+    const linkInfo = parseLink('https://secret.annai.ai/link/abc123def456ghi789');
+    let visibility: DocumentVisibilityState;
+    let online: boolean;
+
+    function setVisibility(state: DocumentVisibilityState) {
+      visibility = state;
+      document.dispatchEvent(new Event('visibilitychange'));
+    }
+
+    function setOnline(value: boolean) {
+      online = value;
+      window.dispatchEvent(new Event(value ? 'online' : 'offline'));
+    }
+
+    function createPoller(background = {}) {
+      return new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: {},
+        environment: new EnvironmentMonitor(),
+        background
+      });
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      visibility = 'visible';
+      online = true;
+      jest.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibility);
+      jest.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      jest.useRealTimers();
+    });
+
+    it('should slow down while the page is hidden and poll immediately when visible again', async () => {
+      const poller = createPoller();
+      await poller.start();
+
+      setVisibility('hidden');
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      // The next poll is scheduled five times further out
+      await jest.advanceTimersByTimeAsync(49999);
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      setVisibility('visible');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      poller.stop();
+    });
+
+    it('should pause while hidden when configured', async () => {
+      const poller = createPoller({ whenHidden: 'pause' });
+      await poller.start();
+
+      setVisibility('hidden');
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(poller.getStatus()).toEqual(expect.objectContaining({ isPaused: true, pausedReason: 'hidden', hidden: true }));
+
+      setVisibility('visible');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(poller.getStatus().isPaused).toBe(false);
+      poller.stop();
+    });
+
+    it('should pause while offline and poll as soon as the device is back online', async () => {
+      const poller = createPoller();
+      await poller.start();
+
+      setOnline(false);
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(poller.getStatus()).toEqual(expect.objectContaining({ pausedReason: 'offline', online: false }));
+
+      setOnline(true);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      poller.stop();
+    });
+
+    it('should keep polling when configured to continue', async () => {
+      const poller = createPoller({ whenHidden: 'continue', whenOffline: 'continue' });
+      await poller.start();
+
+      setVisibility('hidden');
+      setOnline(false);
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      poller.stop();
+    });
+
+    it('should stay paused by pause() when the page comes back', async () => {
+      const poller = createPoller({ whenHidden: 'pause' });
+      await poller.start();
+
+      poller.pause();
+      setVisibility('hidden');
+      setVisibility('visible');
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(poller.getStatus().pausedReason).toBe('manual');
+      poller.stop();
+    });
+  });
+
+  describe('manual control', () => {
+    const linkInfo = parseLink('https://secret.annai.ai/link/abc123def456ghi789');
+
+    function createPoller() {
+      return new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        callbacks: {}
+      });
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should pause and resume without losing its state', async () => {
+      const poller = createPoller();
+      await poller.start();
+      await jest.advanceTimersByTimeAsync(10000);
+      const before = poller.getStatus();
+
+      poller.pause();
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(poller.getStatus()).toEqual(expect.objectContaining({ isRunning: true, isPaused: true, pausedReason: 'manual' }));
+
+      poller.resume();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(poller.getStatus()).toEqual(expect.objectContaining({
+        isPaused: false,
+        clientId: before.clientId,
+        consecutiveEmpty: before.consecutiveEmpty + 1
+      }));
+      poller.stop();
+    });
+
+    it('should poll immediately on pollNow and keep the schedule afterwards', async () => {
+      const poller = createPoller();
+      await poller.start();
+      await jest.advanceTimersByTimeAsync(4000);
+
+      await poller.pollNow();
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      // The timer that was due in 6s was replaced by a fresh one
+      await jest.advanceTimersByTimeAsync(6000);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      poller.stop();
+    });
+
+    it('should join a poll that is already in flight', async () => {
+      let respond!: () => void;
+      (fetch as jest.Mock).mockImplementationOnce(() => new Promise((resolve) => {
+        respond = () => resolve({ ok: true, json: async () => ({ hasNewContent: false, linkStatus: 'active' }) });
+      }));
+      const poller = createPoller();
+      const started = poller.start();
+
+      const first = poller.pollNow();
+      const second = poller.pollNow();
+      respond();
+      await Promise.all([started, first, second]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      poller.stop();
+    });
+
+    it('should poll once on pollNow while paused', async () => {
+      const poller = createPoller();
+      await poller.start();
+      poller.pause();
+
+      await poller.pollNow();
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(poller.getStatus().isPaused).toBe(true);
+      poller.stop();
+    });
+
+    it('should not connect when started while paused', async () => {
+      const poller = createPoller();
+      poller.pause();
+
+      await poller.start();
+      expect(fetch).not.toHaveBeenCalled();
+
+      poller.resume();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      poller.stop();
+    });
+  });
+
+  describe('cancellation', () => {
+    const linkInfo = parseLink('https://secret.annai.ai/link/abc123def456ghi789');
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fail requests that take longer than requestTimeout', async () => {
+      (fetch as jest.Mock).mockReturnValue(new Promise(() => {}));
+      const onError = jest.fn();
+      const poller = new LinkPoller(linkInfo, {
+        endpoint: 'https://example.com/api/poll',
+        interval: 10000,
+        requestTimeout: 5000,
+        callbacks: { onError }
+      });
+
+      poller.start();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(TimeoutError), linkInfo);
+      expect(onError.mock.calls[0][0]).toMatchObject({ timeout: 5000, retryable: true });
+      expect(poller.getStatus().consecutiveFailures).toBe(1);
+      poller.stop();
+    });
+
+    it('should abort the request in flight on stop and not call back afterwards', async () => {
+      let respond!: () => void;
+      (fetch as jest.Mock).mockImplementationOnce(() => new Promise((resolve) => {
+        respond = () => resolve({
+          ok: true,
+          json: async () => ({ hasNewContent: true, linkStatus: 'expired', payload: { type: 'ping', timestamp: 1, data: null } })
+        });
+      }));
+      const callbacks = { onPayload: jest.fn(), onError: jest.fn(), onStatusChange: jest.fn() };
+      const poller = new LinkPoller(linkInfo, { endpoint: 'https://example.com/api/poll', interval: 10000, callbacks });
+      const pollEnd = jest.fn();
+      poller.on('pollEnd', pollEnd);
+
+      const started = poller.start();
+      poller.stop();
+      respond();
+      await started;
+      await poller.settle();
+
+      expect((fetch as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+      expect(callbacks.onPayload).not.toHaveBeenCalled();
+      expect(callbacks.onError).not.toHaveBeenCalled();
+      expect(callbacks.onStatusChange).not.toHaveBeenCalled();
+      expect(pollEnd).not.toHaveBeenCalled();
+    });
+
+    it('should drop the payloads of a response that arrives as the poller stops', async () => {
+      mockPollResponse({ hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp: 1, data: null } });
+      const onPayload = jest.fn();
+      const poller = new LinkPoller(linkInfo, { endpoint: 'https://example.com/api/poll', interval: 10000, callbacks: { onPayload } });
+      poller.on('pollEnd', () => poller.stop());
+
+      await poller.start();
+      await poller.settle();
+
+      expect(onPayload).not.toHaveBeenCalled();
+      expect(poller.getStatus().lastSeen).toBeUndefined();
+    });
+  });
+});
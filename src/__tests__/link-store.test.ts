@@ -0,0 +1,98 @@
+import { SecretLinksSDK } from '../secret-links-sdk';
+import { SecretLinkState } from '../types';
+
+const linkUrl = 'https://secret.annai.ai/link/abc123def456ghi789';
+
+describe('LinkStore', () => {
+  let sdk: SecretLinksSDK;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (fetch as jest.Mock).mockReset();
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+    });
+    sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 1000 });
+  });
+
+  afterEach(() => {
+    sdk.stopAll();
+    jest.useRealTimers();
+  });
+
+  it('should listen only while it has subscribers', async () => {
+    const store = sdk.createLinkStore(linkUrl);
+    expect(store.getSnapshot().isPolling).toBe(false);
+    expect(fetch).not.toHaveBeenCalled();
+
+    const first = store.subscribe(jest.fn());
+    const second = store.subscribe(jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sdk.getActiveListenerCount()).toBe(1);
+
+    first();
+    expect(sdk.getActiveListenerCount()).toBe(1);
+    second();
+    expect(sdk.getActiveListenerCount()).toBe(0);
+    expect(store.getSnapshot().isPolling).toBe(false);
+  });
+
+  it('should call subscribers immediately and with a new snapshot on every change', async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp: 1, data: 'a' } })
+    });
+    const onPayload = jest.fn();
+    const store = sdk.createLinkStore(linkUrl, { onPayload });
+    const snapshots: SecretLinkState[] = [];
+
+    store.subscribe((state) => snapshots.push(state));
+    expect(snapshots).toEqual([{ payloads: [], status: null, error: null, isPolling: true }]);
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(store.getSnapshot()).toEqual({
+      payloads: [expect.objectContaining({ data: 'a' })],
+      status: 'active',
+      error: null,
+      isPolling: true
+    });
+    expect(new Set(snapshots).size).toBe(snapshots.length);
+    expect(onPayload).toHaveBeenCalledWith(expect.objectContaining({ data: 'a' }), expect.anything());
+  });
+
+  it('should keep only the newest payloads', async () => {
+    for (const timestamp of [1, 2, 3]) {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp, data: null } })
+      });
+    }
+    const store = sdk.createLinkStore(linkUrl, { maxPayloads: 2 });
+
+    store.subscribe(jest.fn());
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(store.getSnapshot().payloads.map((payload) => payload.timestamp)).toEqual([2, 3]);
+  });
+
+  it('should stop a listener whose start finishes after the last unsubscribe', async () => {
+    const store = sdk.createLinkStore(linkUrl);
+
+    store.subscribe(jest.fn())();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sdk.getActiveListenerCount()).toBe(0);
+  });
+
+  it('should report errors that prevent listening', async () => {
+    const store = sdk.createLinkStore('invalid-url');
+
+    store.subscribe(jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(store.getSnapshot().error?.message).toContain('Invalid Secret Link URL');
+    expect(store.getSnapshot().isPolling).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { PayloadStream } from '../payload-stream';
+import { PayloadData } from '../types';
+
+const payload = (timestamp: number): PayloadData => ({ type: 'ping', timestamp, data: null });
+
+describe('PayloadStream', () => {
+  it('should hand out buffered payloads before ending', async () => {
+    const onClose = jest.fn();
+    const stream = new PayloadStream(onClose);
+
+    stream.push(payload(1));
+    stream.push(payload(2));
+    stream.end('expired');
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect((await stream.next()).value).toEqual(payload(1));
+    expect((await stream.next()).value).toEqual(payload(2));
+    expect(await stream.next()).toEqual({ value: undefined, done: true });
+    expect(stream.status).toBe('expired');
+  });
+
+  it('should resolve a pending read when a payload arrives', async () => {
+    const stream = new PayloadStream(jest.fn());
+
+    const read = stream.next();
+    stream.push(payload(1));
+
+    await expect(read).resolves.toEqual({ value: payload(1), done: false });
+  });
+
+  it('should report a failure once after the buffered payloads', async () => {
+    const stream = new PayloadStream(jest.fn());
+    const error = new Error('failed');
+
+    stream.push(payload(1));
+    stream.fail(error);
+
+    expect((await stream.next()).value).toEqual(payload(1));
+    await expect(stream.next()).rejects.toBe(error);
+    expect(await stream.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it('should drop buffered payloads and ignore new ones after return()', async () => {
+    const onClose = jest.fn();
+    const stream = new PayloadStream(onClose);
+
+    stream.push(payload(1));
+    await stream.return();
+    stream.push(payload(2));
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(await stream.next()).toEqual({ value: undefined, done: true });
+  });
+});
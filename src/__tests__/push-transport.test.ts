@@ -0,0 +1,347 @@
+import { PushTransport } from '../push-transport';
+import { LinkPoller } from '../link-poller';
+import { parseLink } from '../utils';
+import { InvalidResponseError } from '../errors';
+import { HttpClient } from '../http';
+
+class MockWebSocket {
+  static OPEN = 1;
+  static instances: MockWebSocket[] = [];
+  url: string;
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    MockWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    // no-op: tests drive lifecycle events explicitly
+  }
+}
+
+class MockEventSource {
+  static instances: MockEventSource[] = [];
+  url: string;
+  withCredentials: boolean;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(url: string, init?: { withCredentials?: boolean }) {
+    this.url = url;
+    this.withCredentials = init?.withCredentials ?? false;
+    MockEventSource.instances.push(this);
+  }
+
+  close() {
+    // no-op: tests drive lifecycle events explicitly
+  }
+}
+
+const request = { token: 'abc123def456ghi789', type: 'ping' as const, clientId: 'client-1' };
+
+describe('PushTransport', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockWebSocket.instances = [];
+    MockEventSource.instances = [];
+    (globalThis as unknown as { WebSocket: unknown }).WebSocket = MockWebSocket;
+    (globalThis as unknown as { EventSource: unknown }).EventSource = MockEventSource;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (globalThis as unknown as { WebSocket?: unknown }).WebSocket;
+    delete (globalThis as unknown as { EventSource?: unknown }).EventSource;
+  });
+
+  it('should send the subscription request on open and forward messages', () => {
+    const onMessage = jest.fn();
+    const transport = new PushTransport({
+      kind: 'websocket',
+      url: 'wss://example.com/api/stream',
+      getRequest: () => request,
+      maxReconnectAttempts: 3,
+      onMessage,
+      onError: jest.fn(),
+      onFallback: jest.fn()
+    });
+
+    transport.connect();
+    const socket = MockWebSocket.instances[0];
+    socket.onopen?.();
+    socket.onmessage?.({ data: JSON.stringify({ hasNewContent: false, linkStatus: 'active' }) });
+
+    expect(JSON.parse(socket.sent[0])).toEqual(request);
+    expect(onMessage).toHaveBeenCalledWith({ hasNewContent: false, linkStatus: 'active' });
+    transport.close();
+  });
+
+  it('should authenticate the WebSocket in the first message and only then take acks', async () => {
+    const getRequest = jest.fn(() => ({ ...request, ack: ['p1'] }));
+    const transport = new PushTransport({
+      kind: 'websocket',
+      url: 'wss://example.com/api/stream',
+      getRequest,
+      getAuthToken: async () => 'token-1',
+      maxReconnectAttempts: 3,
+      onMessage: jest.fn(),
+      onError: jest.fn(),
+      onFallback: jest.fn()
+    });
+
+    transport.connect();
+    await Promise.resolve();
+    const socket = MockWebSocket.instances[0];
+    expect(getRequest).not.toHaveBeenCalled();
+    socket.onopen?.();
+
+    expect(getRequest).toHaveBeenCalledWith(true);
+    expect(JSON.parse(socket.sent[0])).toEqual({ ...request, ack: ['p1'], authorization: 'Bearer token-1' });
+    transport.close();
+  });
+
+  it('should subscribe over SSE with the bearer token but without password or acks', () => {
+    const getRequest = jest.fn(() => ({ ...request, password: 'hunter2' }));
+    const transport = new PushTransport({
+      kind: 'sse',
+      url: 'https://example.com/api/stream',
+      getRequest,
+      getAuthToken: () => 'key-1',
+      maxReconnectAttempts: 3,
+      onMessage: jest.fn(),
+      onError: jest.fn(),
+      onFallback: jest.fn()
+    });
+
+    transport.connect();
+
+    const url = new URL(MockEventSource.instances[0].url);
+    expect(url.searchParams.get('token')).toBe(request.token);
+    expect(url.searchParams.get('access_token')).toBe('key-1');
+    expect(url.searchParams.has('password')).toBe(false);
+    expect(getRequest).toHaveBeenCalledWith(false);
+    transport.close();
+  });
+
+  it('should reconnect with backoff and fall back after repeated failures', () => {
+    const onFallback = jest.fn();
+    const transport = new PushTransport({
+      kind: 'websocket',
+      url: 'wss://example.com/api/stream',
+      getRequest: () => request,
+      maxReconnectAttempts: 2,
+      onMessage: jest.fn(),
+      onError: jest.fn(),
+      onFallback
+    });
+
+    transport.connect();
+    MockWebSocket.instances[0].onclose?.({ code: 1006 });
+    jest.advanceTimersByTime(1000);
+    expect(MockWebSocket.instances).toHaveLength(2);
+
+    MockWebSocket.instances[1].onclose?.({ code: 1006 });
+    jest.advanceTimersByTime(2000);
+    expect(MockWebSocket.instances).toHaveLength(3);
+
+    MockWebSocket.instances[2].onclose?.({ code: 1006 });
+    expect(onFallback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report non-JSON messages through onError', () => {
+    const onError = jest.fn();
+    const transport = new PushTransport({
+      kind: 'websocket',
+      url: 'wss://example.com/api/stream',
+      getRequest: () => request,
+      maxReconnectAttempts: 2,
+      onMessage: jest.fn(),
+      onError,
+      onFallback: jest.fn()
+    });
+
+    transport.connect();
+    MockWebSocket.instances[0].onmessage?.({ data: 'not json' });
+
+    expect(onError).toHaveBeenCalledWith(expect.any(InvalidResponseError));
+    expect(onError.mock.calls[0][0].issues).toEqual(['websocket message: expected JSON']);
+    transport.close();
+  });
+
+  it('should let LinkPoller fall back to HTTP polling when the channel fails', async () => {
+    (fetch as jest.Mock).mockReset().mockResolvedValue({
+      ok: true,
+      json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+    });
+
+    const poller = new LinkPoller(parseLink('https://secret.annai.ai/link/abc123def456ghi789'), {
+      endpoint: 'https://example.com/api/poll',
+      interval: 10000,
+      callbacks: {},
+      transport: 'websocket',
+      maxReconnectAttempts: 0
+    });
+
+    await poller.start();
+    expect(MockWebSocket.instances[0].url).toBe('wss://example.com/api/poll');
+    expect(poller.getStatus().transport).toBe('websocket');
+
+    MockWebSocket.instances[0].onclose?.({ code: 1006 });
+    expect(poller.getStatus().transport).toBe('poll');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    poller.stop();
+  });
+
+  it('should poll password-protected links instead of using SSE', async () => {
+    (fetch as jest.Mock).mockReset().mockResolvedValue({
+      ok: true,
+      json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+    });
+
+    const poller = new LinkPoller(parseLink('https://secret.annai.ai/link/abc123def456ghi789?password=hunter2'), {
+      endpoint: 'https://example.com/api/poll',
+      interval: 10000,
+      callbacks: {},
+      transport: 'sse'
+    });
+
+    await poller.start();
+    expect(MockEventSource.instances).toHaveLength(0);
+    expect(poller.getStatus().transport).toBe('poll');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    poller.stop();
+  });
+
+  it('should keep API keys out of SSE URLs and send cookies only when asked', async () => {
+    const poller = new LinkPoller(parseLink('https://secret.annai.ai/link/abc123def456ghi789'), {
+      endpoint: 'https://example.com/api/poll',
+      apiKey: 'key-1',
+      interval: 10000,
+      callbacks: {},
+      transport: 'sse'
+    });
+
+    await poller.start();
+    const source = MockEventSource.instances[0];
+    expect(new URL(source.url).searchParams.has('access_token')).toBe(false);
+    expect(source.withCredentials).toBe(false);
+    poller.stop();
+  });
+
+  it('should put the getAuthToken token in the SSE URL with streamTokenInUrl', async () => {
+    const poller = new LinkPoller(parseLink('https://secret.annai.ai/link/abc123def456ghi789'), {
+      endpoint: 'https://example.com/api/poll',
+      http: new HttpClient({ getAuthToken: async () => 'short-lived' }),
+      interval: 10000,
+      callbacks: {},
+      transport: 'sse',
+      streamTokenInUrl: true,
+      streamCredentials: true
+    });
+
+    await poller.start();
+    await jest.advanceTimersByTimeAsync(0);
+    const source = MockEventSource.instances[0];
+    expect(new URL(source.url).searchParams.get('access_token')).toBe('short-lived');
+    expect(source.withCredentials).toBe(true);
+    poller.stop();
+  });
+
+  it('should acknowledge payloads over the WebSocket as they are delivered', async () => {
+    const onPayload = jest.fn();
+    const poller = new LinkPoller(parseLink('https://secret.annai.ai/link/abc123def456ghi789'), {
+      endpoint: 'https://example.com/api/poll',
+      interval: 10000,
+      callbacks: { onPayload },
+      transport: 'websocket'
+    });
+
+    await poller.start();
+    const socket = MockWebSocket.instances[0];
+    socket.readyState = MockWebSocket.OPEN;
+    socket.onopen?.();
+    socket.onmessage?.({ data: JSON.stringify({
+      hasNewContent: true,
+      linkStatus: 'active',
+      payload: { id: 'p-1', type: 'ping', timestamp: 1, data: 'hi' }
+    }) });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(onPayload).toHaveBeenCalledTimes(1);
+    expect(socket.sent.slice(1).map((message) => JSON.parse(message))).toEqual([{ ack: ['p-1'] }]);
+    poller.stop();
+  });
+
+  it('should not collect acknowledgements over SSE', async () => {
+    (fetch as jest.Mock).mockReset().mockResolvedValue({
+      ok: true,
+      json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+    });
+    const poller = new LinkPoller(parseLink('https://secret.annai.ai/link/abc123def456ghi789'), {
+      endpoint: 'https://example.com/api/poll',
+      interval: 10000,
+      callbacks: {},
+      transport: 'sse',
+      maxReconnectAttempts: 0
+    });
+
+    await poller.start();
+    const source = MockEventSource.instances[0];
+    source.onmessage?.({ data: JSON.stringify({
+      hasNewContent: true,
+      linkStatus: 'active',
+      payload: { id: 'p-1', type: 'ping', timestamp: 1, data: 'hi' }
+    }) });
+    await jest.advanceTimersByTimeAsync(0);
+
+    // Falling back to polling sends no stale acknowledgements
+    source.onerror?.();
+    expect(JSON.parse((fetch as jest.Mock).mock.calls[0][1].body).ack).toBeUndefined();
+    poller.stop();
+  });
+
+  it('should handle push messages in the order they arrive', async () => {
+    const delivered: string[] = [];
+    const poller = new LinkPoller(parseLink('https://secret.annai.ai/link/abc123def456ghi789'), {
+      endpoint: 'https://example.com/api/poll',
+      interval: 10000,
+      callbacks: {
+        // The first payload takes longer to check than the second
+        schema: (data) => new Promise<string>((resolve) => setTimeout(() => resolve(data as string), data === 'first' ? 50 : 0)),
+        onPayload: (payload) => {
+          delivered.push(payload.data as string);
+        }
+      },
+      transport: 'websocket'
+    });
+
+    await poller.start();
+    const socket = MockWebSocket.instances[0];
+    socket.onopen?.();
+    socket.onmessage?.({ data: JSON.stringify({
+      hasNewContent: true,
+      linkStatus: 'active',
+      payload: { id: 'p-1', type: 'ping', timestamp: 1, data: 'first' }
+    }) });
+    socket.onmessage?.({ data: JSON.stringify({
+      hasNewContent: true,
+      linkStatus: 'active',
+      payload: { id: 'p-2', type: 'ping', timestamp: 2, data: 'second' }
+    }) });
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(delivered).toEqual(['first', 'second']);
+    expect(poller.getStatus().lastSeen).toBe(2);
+    poller.stop();
+  });
+});
@@ -0,0 +1,203 @@
+import { act, createElement, StrictMode } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { SecretLinksSDK } from '../secret-links-sdk';
+import {
+  SecretLinksProvider,
+  useLinkValidation,
+  useSecretLink,
+  SecretLinkState,
+  LinkValidationState,
+  UseSecretLinkOptions
+} from '../react';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const linkUrl = 'https://secret.annai.ai/link/abc123def456ghi789';
+
+function respond(body: object) {
+  (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => body });
+}
+
+describe('React bindings', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let sdk: SecretLinksSDK;
+  let linkState: SecretLinkState;
+
+  function LinkProbe({ url, options }: { url: string | null; options?: UseSecretLinkOptions }) {
+    linkState = useSecretLink(url, options);
+    return null;
+  }
+
+  async function render(element: Parameters<Root['render']>[0]) {
+    await act(async () => {
+      root.render(element);
+    });
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (fetch as jest.Mock).mockReset();
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+    });
+    sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 1000 });
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+    sdk.stopAll();
+    jest.useRealTimers();
+  });
+
+  describe('useSecretLink', () => {
+    it('should collect payloads and stop listening on unmount', async () => {
+      respond({ hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp: 1, data: 'a' } });
+
+      await render(createElement(SecretLinksProvider, { sdk }, createElement(LinkProbe, { url: linkUrl })));
+
+      expect(linkState).toEqual(expect.objectContaining({ status: 'active', isPolling: true, error: null }));
+      expect(linkState.payloads).toEqual([expect.objectContaining({ data: 'a' })]);
+      expect(sdk.getActiveListenerCount()).toBe(1);
+
+      await act(async () => root.unmount());
+      expect(sdk.getActiveListenerCount()).toBe(0);
+      root = createRoot(container);
+    });
+
+    it('should keep a single listener under StrictMode', async () => {
+      await render(createElement(
+        StrictMode,
+        null,
+        createElement(SecretLinksProvider, { sdk }, createElement(LinkProbe, { url: linkUrl }))
+      ));
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(0);
+      });
+
+      expect(sdk.getActiveListenerCount()).toBe(1);
+    });
+
+    it('should report terminal statuses and stop polling', async () => {
+      respond({ hasNewContent: false, linkStatus: 'expired' });
+
+      await render(createElement(SecretLinksProvider, { sdk }, createElement(LinkProbe, { url: linkUrl })));
+
+      expect(linkState.status).toBe('expired');
+      expect(linkState.isPolling).toBe(false);
+    });
+
+    it('should report invalid links as errors', async () => {
+      await render(createElement(SecretLinksProvider, { sdk }, createElement(LinkProbe, { url: 'invalid-url' })));
+
+      expect(linkState.error?.message).toContain('Invalid Secret Link URL');
+      expect(linkState.isPolling).toBe(false);
+    });
+
+    it('should restart when the URL changes and idle without one', async () => {
+      const otherUrl = 'https://secret.annai.ai/link/zyx987wvu654tsr321';
+
+      await render(createElement(SecretLinksProvider, { sdk }, createElement(LinkProbe, { url: linkUrl })));
+      await render(createElement(SecretLinksProvider, { sdk }, createElement(LinkProbe, { url: otherUrl })));
+
+      expect(sdk.getAllListenerStatuses()).toEqual([expect.objectContaining({ token: 'zyx987wv...' })]);
+
+      await render(createElement(SecretLinksProvider, { sdk }, createElement(LinkProbe, { url: null })));
+      expect(sdk.getActiveListenerCount()).toBe(0);
+      expect(linkState.isPolling).toBe(false);
+    });
+
+    it('should not poll during server rendering', () => {
+      const html = renderToString(createElement(
+        SecretLinksProvider,
+        { options: { pollingEndpoint: 'https://example.com/api/poll' } },
+        createElement(LinkProbe, { url: linkUrl })
+      ));
+
+      expect(html).toBe('');
+      expect(linkState.isPolling).toBe(false);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useLinkValidation', () => {
+    let validation: LinkValidationState;
+
+    function ValidationProbe({ url }: { url: string }) {
+      validation = useLinkValidation(url);
+      return null;
+    }
+
+    it('should validate links synchronously', async () => {
+      await render(createElement(SecretLinksProvider, { sdk }, createElement(ValidationProbe, { url: 'not-a-link' })));
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors[0].code).toBe('INVALID_URL');
+      expect(validation.isValidating).toBe(false);
+    });
+
+    it('should apply asynchronous validators', async () => {
+      sdk.addAsyncValidator('revoked', async () => 'Link revoked');
+
+      await render(createElement(SecretLinksProvider, { sdk }, createElement(ValidationProbe, { url: linkUrl })));
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual([expect.objectContaining({ message: 'Link revoked', rule: 'revoked' })]);
+      expect(validation.isValidating).toBe(false);
+    });
+  });
+
+  describe('SecretLinksProvider', () => {
+    it('should require a provider', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(render(createElement(LinkProbe, { url: linkUrl }))).rejects.toThrow('SecretLinksProvider');
+
+      consoleError.mockRestore();
+    });
+
+    it('should dispose an SDK it created when unmounted', async () => {
+      const spy = jest.spyOn(SecretLinksSDK.prototype, 'dispose');
+
+      await render(createElement(
+        SecretLinksProvider,
+        { options: { pollingEndpoint: 'https://example.com/api/poll' } },
+        createElement(LinkProbe, { url: linkUrl })
+      ));
+      await act(async () => root.unmount());
+      await jest.advanceTimersByTimeAsync(0);
+      root = createRoot(container);
+
+      const created = spy.mock.contexts[0] as SecretLinksSDK;
+      expect(created).toBeInstanceOf(SecretLinksSDK);
+      expect(created).not.toBe(sdk);
+      expect(created.getActiveListenerCount()).toBe(0);
+      spy.mockRestore();
+    });
+
+    it('should keep an SDK it created usable under StrictMode', async () => {
+      const spy = jest.spyOn(SecretLinksSDK.prototype, 'dispose');
+
+      await render(createElement(
+        StrictMode,
+        null,
+        createElement(
+          SecretLinksProvider,
+          { options: { pollingEndpoint: 'https://example.com/api/poll' } },
+          createElement(LinkProbe, { url: linkUrl })
+        )
+      ));
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(0);
+      });
+
+      expect(spy).not.toHaveBeenCalled();
+      expect(linkState).toEqual(expect.objectContaining({ isPolling: true, error: null }));
+      spy.mockRestore();
+    });
+  });
+});
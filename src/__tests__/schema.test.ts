@@ -0,0 +1,83 @@
+import { parsePayloadData, parsePollResponse } from '../schema';
+import { InvalidResponseError } from '../errors';
+
+describe('parsePollResponse', () => {
+  it('should accept valid responses and drop null optional fields', () => {
+    const response = parsePollResponse({
+      hasNewContent: true,
+      linkStatus: 'active',
+      nextPollIn: 5000,
+      cursor: null,
+      error: null,
+      payload: { id: 'p1', type: 'ping', timestamp: 1, data: null, metadata: { source: 'curl' } }
+    });
+
+    expect(response).toEqual({
+      hasNewContent: true,
+      linkStatus: 'active',
+      nextPollIn: 5000,
+      payload: { id: 'p1', type: 'ping', timestamp: 1, data: null, metadata: { source: 'curl' } }
+    });
+    expect(response.payload).toHaveProperty('data', null);
+  });
+
+  it('should list every problem', () => {
+    let error: InvalidResponseError | undefined;
+    try {
+      parsePollResponse({
+        hasNewContent: 'yes',
+        linkStatus: 'active',
+        hasMore: 1,
+        payloads: [{ type: 'ping', timestamp: 1, data: {} }, { type: 'email', timestamp: '1', data: {} }]
+      });
+    } catch (caught) {
+      error = caught as InvalidResponseError;
+    }
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error?.code).toBe('INVALID_RESPONSE');
+    expect(error?.issues).toEqual([
+      'hasNewContent: expected a boolean',
+      'hasMore: expected a boolean',
+      'payloads[1].type: expected one of ping, webhook',
+      'payloads[1].timestamp: expected a number'
+    ]);
+  });
+
+  it('should reject bodies that are not objects', () => {
+    expect(() => parsePollResponse('OK')).toThrow('Invalid response: response: expected an object');
+    expect(() => parsePollResponse([])).toThrow(InvalidResponseError);
+  });
+
+  it('should reject negative or non-numeric nextPollIn', () => {
+    expect(() => parsePollResponse({ hasNewContent: false, linkStatus: 'active', nextPollIn: -1 })).toThrow('nextPollIn');
+    expect(() => parsePollResponse({ hasNewContent: false, linkStatus: 'active', nextPollIn: '5' })).toThrow('nextPollIn');
+  });
+});
+
+describe('parsePayloadData', () => {
+  const payload = { type: 'webhook' as const, timestamp: 1, data: { count: '3' } };
+
+  it('should accept functions and objects with a parse method', async () => {
+    const toCount = (data: unknown) => Number((data as { count: string }).count);
+
+    await expect(parsePayloadData(payload, toCount)).resolves.toEqual({ ...payload, data: 3 });
+    await expect(parsePayloadData(payload, { parse: async (data) => toCount(data) })).resolves.toEqual({ ...payload, data: 3 });
+  });
+
+  it('should wrap schema failures in InvalidResponseError', async () => {
+    const cause = new Error('Expected number, received object');
+    const schema = {
+      parse: () => {
+        throw cause;
+      }
+    };
+
+    await expect(parsePayloadData(payload, schema)).rejects.toMatchObject({
+      name: 'InvalidResponseError',
+      issues: ['data: Expected number, received object'],
+      retryable: false,
+      cause
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { SecretLinksSDK } from '../secret-links-sdk';
+import { AbortError, LinkClosedError, TimeoutError, ValidationError } from '../errors';
 
 // Mock fetch for testing
 global.fetch = jest.fn();
@@ -87,6 +88,82 @@ describe('SecretLinksSDK', () => {
       const result3 = sdk.validateLink('https://allowed-domain.com/link/abc123def456ghi789?password=secret');
       expect(result3.isValid).toBe(true);
     });
+
+    it('should return every failure reason', () => {
+      const sdk = new SecretLinksSDK({
+        pollingEndpoint: 'https://example.com/api/poll',
+        validation: {
+          allowedDomains: ['allowed-domain.com'],
+          allowedLinkTypes: ['webhook'],
+          requirePassword: true
+        }
+      });
+
+      const result = sdk.validateLink('https://secret.annai.ai/link/abc123def456ghi789');
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors?.map((issue) => issue.code)).toEqual([
+        'DOMAIN_NOT_ALLOWED',
+        'LINK_TYPE_NOT_ALLOWED',
+        'PASSWORD_REQUIRED'
+      ]);
+      expect(result.errors?.[0].message).toContain('secret.annai.ai is not allowed');
+    });
+
+    it('should return the parse failure reason for malformed links', () => {
+      const result = sdk.validateLink('https://secret.annai.ai/link/short');
+
+      expect(result.errors).toEqual([{ code: 'INVALID_TOKEN', message: expect.any(String) }]);
+    });
+  });
+
+  describe('custom validators', () => {
+    let sdk: SecretLinksSDK;
+
+    beforeEach(() => {
+      sdk = new SecretLinksSDK({
+        pollingEndpoint: 'https://example.com/api/poll'
+      });
+    });
+
+    it('should run synchronous validators in validateLink', () => {
+      sdk.addValidator('no-test-tokens', (linkInfo) =>
+        linkInfo.token.startsWith('test') ? 'Test links are not accepted' : null
+      );
+
+      const result = sdk.validateLink('https://secret.annai.ai/link/test123def456ghi789');
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([{ code: 'CUSTOM', message: 'Test links are not accepted', rule: 'no-test-tokens' }]);
+      expect(sdk.validateLink('https://secret.annai.ai/link/abc123def456ghi789').isValid).toBe(true);
+    });
+
+    it('should await asynchronous validators in startListening', async () => {
+      const validator = jest.fn().mockResolvedValue('Link revoked by API');
+      sdk.addAsyncValidator('api-check', validator);
+
+      // Async validators do not run in the synchronous validateLink
+      expect(sdk.validateLink('https://secret.annai.ai/link/abc123def456ghi789').isValid).toBe(true);
+      expect(validator).not.toHaveBeenCalled();
+
+      const error = await sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toBe('Link revoked by API');
+      expect(validator).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'abc123def456ghi789' }),
+        expect.objectContaining({ url: 'https://secret.annai.ai/link/abc123def456ghi789' })
+      );
+      expect(sdk.getActiveListenerCount()).toBe(0);
+    });
+
+    it('should stop applying removed validators', async () => {
+      sdk.addAsyncValidator('api-check', async () => 'Rejected');
+      expect(sdk.removeValidator('api-check')).toBe(true);
+
+      const result = await sdk.validateLinkAsync('https://secret.annai.ai/link/abc123def456ghi789');
+      expect(result.isValid).toBe(true);
+    });
   });
 
   describe('startListening', () => {
@@ -104,6 +181,75 @@ describe('SecretLinksSDK', () => {
       ).rejects.toThrow('Invalid Secret Link URL');
     });
 
+    it('should reject with a ValidationError carrying the reason', async () => {
+      const sdk = new SecretLinksSDK({
+        pollingEndpoint: 'https://example.com/api/poll',
+        validation: { allowedDomains: ['allowed-domain.com'] }
+      });
+
+      const error = await sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.reason).toBe('DOMAIN_NOT_ALLOWED');
+      expect(error.retryable).toBe(false);
+    });
+
+    it('should drop listeners that exhausted their retries', async () => {
+      (fetch as jest.Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      const sdk = new SecretLinksSDK({
+        pollingEndpoint: 'https://example.com/api/poll',
+        retryPolicy: { maxConsecutiveFailures: 1 }
+      });
+
+      const onError = jest.fn();
+      await sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789', { onError });
+
+      expect(onError).toHaveBeenLastCalledWith(expect.objectContaining({ code: 'RETRIES_EXHAUSTED' }), expect.anything());
+      expect(sdk.isListening()).toBe(false);
+    });
+
+    it('should poll at the configured interval', async () => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+      });
+      const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 2000 });
+
+      await sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789');
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      sdk.stopAll();
+      jest.useRealTimers();
+    });
+
+    it('should apply per-link polling overrides', async () => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active', nextPollIn: 60000 })
+      });
+
+      const listenerId = await sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789', {}, {
+        interval: 1000,
+        adaptive: false
+      });
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(fetch).toHaveBeenCalledTimes(4);
+      expect(sdk.getListenerStatus(listenerId)?.currentInterval).toBe(1000);
+
+      sdk.stopAll();
+      jest.useRealTimers();
+    });
+
+    it('should reject invalid polling overrides', async () => {
+      await expect(
+        sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789', {}, { minInterval: 5000, maxInterval: 2000 })
+      ).rejects.toThrow('minInterval must not be greater than maxInterval');
+    });
+
     it('should return listener ID for valid URLs', async () => {
       const listenerId = await sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789', {
         onPayload: jest.fn(),
@@ -131,6 +277,419 @@ describe('SecretLinksSDK', () => {
     });
   });
 
+  describe('pause and resume', () => {
+    const linkUrl = 'https://secret.annai.ai/link/abc123def456ghi789';
+    let sdk: SecretLinksSDK;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock).mockReset();
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+      });
+      sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 1000 });
+    });
+
+    afterEach(() => {
+      sdk.stopAll();
+      jest.useRealTimers();
+    });
+
+    it('should pause and resume listeners without stopping them', async () => {
+      const first = await sdk.startListening(linkUrl, {});
+      const second = await sdk.startListening('https://secret.annai.ai/link/zyx987wvu654tsr321', {});
+
+      sdk.pauseListening(first);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(sdk.getListenerStatus(first)?.pausedReason).toBe('manual');
+
+      sdk.pauseAll();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(sdk.getActiveListenerCount()).toBe(2);
+
+      sdk.resumeAll();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetch).toHaveBeenCalledTimes(5);
+      expect(sdk.getListenerStatus(second)?.isPaused).toBe(false);
+    });
+
+    it('should deliver payloads from pollNow before resolving', async () => {
+      const onPayload = jest.fn();
+      const listenerId = await sdk.startListening(linkUrl, { onPayload });
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp: 1, data: 'a' } })
+      });
+
+      await sdk.pollNow(listenerId);
+
+      expect(onPayload).toHaveBeenCalledWith(expect.objectContaining({ data: 'a' }), expect.anything());
+    });
+
+    it('should ignore unknown listener IDs', async () => {
+      expect(() => sdk.pauseListening('non-existent-id')).not.toThrow();
+      expect(() => sdk.resumeListening('non-existent-id')).not.toThrow();
+      await expect(sdk.pollNow('non-existent-id')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('http layer', () => {
+    it.each([false, true])('should poll through the fetch option and interceptors (batch: %s)', async (batch) => {
+      const customFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ status: 'gone' })
+      });
+      const sdk = new SecretLinksSDK({
+        pollingEndpoint: 'https://example.com/api/poll',
+        batch: batch && { batchWindow: 0 },
+        fetch: customFetch,
+        interceptors: [{
+          onRequest: (request) => ({ ...request, headers: { ...request.headers, 'X-CSRF-Token': 'csrf' } }),
+          onResponse: () => (batch
+            ? { responses: [{ hasNewContent: false, linkStatus: 'deleted' }] }
+            : { hasNewContent: false, linkStatus: 'deleted' })
+        }]
+      });
+      const onStatusChange = jest.fn();
+
+      await sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789', { onStatusChange });
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(customFetch.mock.calls[0][1].headers['X-CSRF-Token']).toBe('csrf');
+      expect(onStatusChange).toHaveBeenCalledWith('deleted', expect.anything());
+    });
+
+    it('should send rotated API keys and refreshed tokens from running listeners', async () => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock).mockReset();
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ hasNewContent: false, linkStatus: 'active' }) })
+        .mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' })
+        .mockResolvedValue({ ok: true, json: async () => ({ hasNewContent: false, linkStatus: 'active' }) });
+      const getAuthToken = jest.fn().mockResolvedValue('session-2');
+      const onError = jest.fn();
+      const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 1000, getAuthToken });
+      const authorization = (call: number) => (fetch as jest.Mock).mock.calls[call][1].headers.Authorization;
+
+      sdk.updateApiKey('session-1');
+      await sdk.startListening('https://secret.annai.ai/link/abc123def456ghi789', { onError });
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect([authorization(0), authorization(1), authorization(2)]).toEqual([
+        'Bearer session-1',
+        'Bearer session-1',
+        'Bearer session-2'
+      ]);
+      expect(getAuthToken).toHaveBeenCalledTimes(1);
+      expect(onError).not.toHaveBeenCalled();
+      sdk.stopAll();
+      jest.useRealTimers();
+    });
+
+    it('should reject an invalid fetch option', () => {
+      expect(() => new SecretLinksSDK({
+        pollingEndpoint: 'https://example.com/api/poll',
+        fetch: 'fetch' as never
+      })).toThrow('fetch must be a function');
+    });
+
+    it('should only put getAuthToken tokens in SSE URLs', () => {
+      expect(() => new SecretLinksSDK({
+        pollingEndpoint: 'https://example.com/api/poll',
+        apiKey: 'key-1',
+        transport: 'sse',
+        streamTokenInUrl: true
+      })).toThrow('streamTokenInUrl requires getAuthToken');
+    });
+  });
+
+  describe('dispose', () => {
+    const linkUrl = 'https://secret.annai.ai/link/abc123def456ghi789';
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock).mockReset();
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should wait for running payload handlers on dispose', async () => {
+      const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', delivery: 'at-least-once' });
+      let finishHandler!: () => void;
+      const onPayload = jest.fn(() => new Promise<void>((resolve) => {
+        finishHandler = resolve;
+      }));
+      const onSDKPayload = jest.fn();
+      sdk.on('payload', onSDKPayload);
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp: 1, data: 'a' } })
+      });
+      sdk.startListening(linkUrl, { onPayload });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(onPayload).toHaveBeenCalledTimes(1);
+
+      let disposed = false;
+      const disposing = sdk.dispose().then(() => {
+        disposed = true;
+      });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(disposed).toBe(false);
+      expect(sdk.getActiveListenerCount()).toBe(0);
+
+      finishHandler();
+      await disposing;
+      expect(onSDKPayload).not.toHaveBeenCalled();
+      await expect(sdk.startListening(linkUrl)).rejects.toMatchObject({
+        name: 'DisposedError',
+        code: 'DISPOSED',
+        message: 'The SDK has been disposed'
+      });
+    });
+  });
+
+  describe('events', () => {
+    const linkUrl = 'https://secret.annai.ai/link/abc123def456ghi789';
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should emit listener events on the SDK tagged with the listener ID', async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          hasNewContent: true,
+          linkStatus: 'active',
+          payload: { type: 'ping', timestamp: 1, data: { hello: 'world' } }
+        })
+      });
+      const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll' });
+      const onPayload = jest.fn();
+      const firstSubscriber = jest.fn();
+      const secondSubscriber = jest.fn();
+      const pollStart = jest.fn();
+      const pollEnd = jest.fn();
+      sdk.on('payload', firstSubscriber);
+      sdk.on('payload', secondSubscriber);
+      sdk.on('pollStart', pollStart);
+      sdk.on('pollEnd', pollEnd);
+
+      const listenerId = await sdk.startListening(linkUrl, { onPayload });
+
+      const payload = expect.objectContaining({ data: { hello: 'world' } });
+      const linkInfo = expect.objectContaining({ token: 'abc123def456ghi789' });
+      expect(onPayload).toHaveBeenCalledWith(payload, linkInfo);
+      expect(firstSubscriber).toHaveBeenCalledWith(payload, linkInfo, listenerId);
+      expect(secondSubscriber).toHaveBeenCalledWith(payload, linkInfo, listenerId);
+      expect(pollStart).toHaveBeenCalledWith(linkInfo, listenerId);
+      expect(pollEnd).toHaveBeenCalledWith(
+        expect.objectContaining({ duration: expect.any(Number), response: expect.objectContaining({ hasNewContent: true }) }),
+        linkInfo,
+        listenerId
+      );
+
+      sdk.stopAll();
+    });
+
+    it('should emit errors and interval changes from a listener', async () => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ hasNewContent: false, linkStatus: 'active', nextPollIn: 5000 }) })
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 2000 });
+      const onError = jest.fn();
+      const intervalChange = jest.fn();
+
+      const listenerId = await sdk.startListening(linkUrl, { onError });
+      sdk.listener(listenerId)?.on('intervalChange', intervalChange);
+      sdk.listener(listenerId)?.once('error', (error) => onError(error));
+      expect(intervalChange).not.toHaveBeenCalled();
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active', nextPollIn: 3000 })
+      });
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(onError).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(intervalChange).toHaveBeenCalledWith(3000, 5000, expect.anything());
+
+      sdk.stopAll();
+    });
+
+    it('should report throwing event handlers as errors', async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+      });
+      const onError = jest.fn();
+      const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', onError });
+      sdk.on('pollStart', () => {
+        throw new Error('handler failed');
+      });
+
+      await sdk.startListening(linkUrl);
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'handler failed' }));
+      sdk.stopAll();
+    });
+
+    it('should return null for unknown listeners', () => {
+      const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll' });
+      expect(sdk.listener('non-existent-id')).toBeNull();
+    });
+  });
+
+  describe('promise and iterator consumption', () => {
+    const linkUrl = 'https://secret.annai.ai/link/abc123def456ghi789';
+    let sdk: SecretLinksSDK;
+
+    const respondWith = (...timestamps: number[]) => {
+      for (const timestamp of timestamps) {
+        (fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            hasNewContent: true,
+            linkStatus: 'active',
+            payload: { type: 'ping', timestamp, data: { n: timestamp } }
+          })
+        });
+      }
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock).mockReset();
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+      });
+      sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 1000 });
+    });
+
+    afterEach(() => {
+      sdk.stopAll();
+      jest.useRealTimers();
+    });
+
+    it('should iterate over payloads and stop the listener when the loop exits', async () => {
+      respondWith(1, 2);
+      const received: number[] = [];
+
+      const consume = (async () => {
+        for await (const payload of sdk.listen(linkUrl)) {
+          received.push(payload.timestamp);
+          if (received.length === 2) {
+            break;
+          }
+        }
+      })();
+      await jest.advanceTimersByTimeAsync(1000);
+      await consume;
+
+      expect(received).toEqual([1, 2]);
+      expect(sdk.isListening()).toBe(false);
+    });
+
+    it('should end the iteration when the link reaches a terminal status', async () => {
+      respondWith(1);
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'expired' })
+      });
+      const received: number[] = [];
+
+      const consume = (async () => {
+        for await (const payload of sdk.listen(linkUrl)) {
+          received.push(payload.timestamp);
+        }
+      })();
+      await jest.advanceTimersByTimeAsync(1000);
+      await consume;
+
+      expect(received).toEqual([1]);
+      expect(sdk.isListening()).toBe(false);
+    });
+
+    it('should resolve waitForPayload with the first matching payload', async () => {
+      respondWith(1, 2);
+
+      const result = sdk.waitForPayload(linkUrl, { filter: (payload) => payload.timestamp === 2 });
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(result).resolves.toEqual(expect.objectContaining({ timestamp: 2 }));
+      expect(sdk.isListening()).toBe(false);
+    });
+
+    it('should check payload data with a schema before filtering', async () => {
+      respondWith(1, 2);
+      const schema = (data: unknown) => ({ label: `#${(data as { n: number }).n}` });
+
+      const result = sdk.waitForPayload(linkUrl, { schema, filter: (payload) => payload.data.label === '#2' });
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(result).resolves.toEqual(expect.objectContaining({ timestamp: 2, data: { label: '#2' } }));
+    });
+
+    it('should reject waitForPayload after the timeout', async () => {
+      const result = sdk.waitForPayload(linkUrl, { timeout: 2500 });
+      const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+
+      await jest.advanceTimersByTimeAsync(2500);
+
+      await assertion;
+      expect(sdk.isListening()).toBe(false);
+    });
+
+    it('should reject waitForPayload when the link closes first', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ hasNewContent: false, linkStatus: 'deleted' })
+      });
+
+      const error = await sdk.waitForPayload(linkUrl).catch((e) => e);
+
+      expect(error).toBeInstanceOf(LinkClosedError);
+      expect(error.status).toBe('deleted');
+    });
+
+    it('should cancel with an AbortSignal', async () => {
+      const controller = new AbortController();
+      const result = sdk.waitForPayload(linkUrl, { signal: controller.signal });
+      const assertion = expect(result).rejects.toBeInstanceOf(AbortError);
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(sdk.isListening()).toBe(true);
+      controller.abort();
+
+      await assertion;
+      expect(sdk.isListening()).toBe(false);
+    });
+
+    it('should not start listening with an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(sdk.listen(linkUrl, { signal: controller.signal }).next()).rejects.toBeInstanceOf(AbortError);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject with the validation error for invalid links', async () => {
+      await expect(sdk.waitForPayload('invalid-url')).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
   describe('utility methods', () => {
     let sdk: SecretLinksSDK;
 
@@ -148,6 +707,14 @@ describe('SecretLinksSDK', () => {
       expect(sdk.isListening()).toBe(false);
     });
 
+    it('should report the circuit state only when the circuit breaker is enabled', () => {
+      expect(sdk.getCircuitState()).toBeNull();
+      expect(new SecretLinksSDK({
+        pollingEndpoint: 'https://example.com/api/poll',
+        circuitBreaker: { failureThreshold: 3 }
+      }).getCircuitState()).toBe('closed');
+    });
+
     it('should return empty array for listener statuses when no listeners', () => {
       const statuses = sdk.getAllListenerStatuses();
       expect(statuses).toEqual([]);
@@ -0,0 +1,144 @@
+import { createPollHandler, normalizeUpstreamResponse, validatePollRequest } from '../server';
+
+const TOKEN = 'abc123def456ghi789';
+
+function upstreamFetch(body: unknown, status = 200) {
+  return jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body
+  });
+}
+
+describe('createPollHandler', () => {
+  it('should forward valid requests upstream and normalize the response', async () => {
+    const fetchMock = upstreamFetch({ payload: { type: 'ping', timestamp: 1, data: 'hi' } });
+    const handler = createPollHandler({ fetch: fetchMock });
+
+    const result = await handler({
+      method: 'POST',
+      headers: {},
+      body: { token: TOKEN, type: 'ping', password: 'secret', clientId: 'c-1' }
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `https://secret.annai.ai/api/links/${TOKEN}/poll`,
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual(
+      expect.objectContaining({ password: 'secret', clientId: 'c-1' })
+    );
+    expect(result.status).toBe(200);
+    expect(result.body).toEqual({
+      hasNewContent: true,
+      linkStatus: 'active',
+      nextPollIn: 10000,
+      payload: { type: 'ping', timestamp: 1, data: 'hi' }
+    });
+  });
+
+  it('should require a valid bearer apiKey when configured', async () => {
+    const handler = createPollHandler({ apiKeys: ['key-1'], fetch: upstreamFetch({}) });
+    const body = { token: TOKEN, type: 'ping' };
+
+    expect((await handler({ method: 'POST', headers: {}, body })).status).toBe(401);
+    expect((await handler({ method: 'POST', headers: { authorization: 'Bearer nope' }, body })).status).toBe(401);
+    expect((await handler({ method: 'POST', headers: { authorization: 'Bearer key-1' }, body })).status).toBe(200);
+  });
+
+  it('should reject malformed requests', async () => {
+    const handler = createPollHandler({ fetch: upstreamFetch({}) });
+
+    const result = await handler({ method: 'POST', headers: {}, body: { token: TOKEN, type: 'email' } });
+
+    expect(result.status).toBe(400);
+    expect(result.body).toEqual({ error: "type must be 'ping' or 'webhook'" });
+  });
+
+  it('should reject non-POST requests', async () => {
+    const handler = createPollHandler({ fetch: upstreamFetch({}) });
+
+    expect((await handler({ method: 'GET', headers: {}, body: undefined })).status).toBe(405);
+  });
+
+  it('should hit upstream once for many clients polling the same link', async () => {
+    const fetchMock = upstreamFetch({ hasNewContent: false });
+    const handler = createPollHandler({ fetch: fetchMock, cacheTtl: 5000 });
+
+    await Promise.all([1, 2, 3].map((n) =>
+      handler({ method: 'POST', headers: {}, body: { token: TOKEN, type: 'ping', clientId: `c-${n}` } })
+    ));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache upstream errors', async () => {
+    const fetchMock = upstreamFetch({}, 503);
+    const handler = createPollHandler({ fetch: fetchMock, cacheTtl: 5000 });
+    const request = { method: 'POST', headers: {}, body: { token: TOKEN, type: 'ping' } };
+
+    expect((await handler(request)).body).toEqual(expect.objectContaining({ error: 'Secret Links API responded with HTTP 503' }));
+    await handler(request);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass the cache for requests carrying acknowledgements', async () => {
+    const fetchMock = upstreamFetch({ hasNewContent: false });
+    const handler = createPollHandler({ fetch: fetchMock, cacheTtl: 5000 });
+
+    await handler({ method: 'POST', headers: {}, body: { token: TOKEN, type: 'ping' } });
+    await handler({ method: 'POST', headers: {}, body: { token: TOKEN, type: 'ping', ack: ['p-1'] } });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should answer batch requests', async () => {
+    const handler = createPollHandler({ fetch: upstreamFetch({ hasNewContent: false }, 404) });
+
+    const result = await handler({
+      method: 'POST',
+      headers: {},
+      body: { requests: [{ token: TOKEN, type: 'ping' }, { token: 'zzz123def456ghi789', type: 'webhook' }] }
+    });
+
+    expect(result.status).toBe(200);
+    expect(result.body).toEqual({
+      responses: [
+        { hasNewContent: false, linkStatus: 'deleted' },
+        { hasNewContent: false, linkStatus: 'deleted' }
+      ]
+    });
+  });
+
+  it('should report upstream failures as 502', async () => {
+    const handler = createPollHandler({ fetch: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) });
+
+    const result = await handler({ method: 'POST', headers: {}, body: { token: TOKEN, type: 'ping' } });
+
+    expect(result.status).toBe(502);
+    expect(result.body).toEqual(expect.objectContaining({ error: 'Secret Links service unavailable' }));
+  });
+});
+
+describe('validatePollRequest', () => {
+  it('should accept a minimal request', () => {
+    expect(validatePollRequest({ token: TOKEN, type: 'webhook' })).toBeNull();
+  });
+
+  it('should describe the first problem', () => {
+    expect(validatePollRequest(null)).toBe('Request body must be a JSON object');
+    expect(validatePollRequest({ token: 'short', type: 'ping' })).toContain('token');
+    expect(validatePollRequest({ token: TOKEN, type: 'ping', lastSeen: '5' })).toBe('lastSeen must be a number');
+  });
+});
+
+describe('normalizeUpstreamResponse', () => {
+  it('should fill in defaults and drop unknown statuses', () => {
+    expect(normalizeUpstreamResponse({ linkStatus: 'weird', nextPollIn: '5' }, 'webhook')).toEqual({
+      hasNewContent: false,
+      linkStatus: 'active',
+      nextPollIn: 60000
+    });
+  });
+});
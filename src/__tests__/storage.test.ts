@@ -0,0 +1,146 @@
+import { ListenerStore, MemoryStorageAdapter, WebStorageAdapter } from '../storage';
+import { SecretLinksSDK } from '../secret-links-sdk';
+
+const LINK_URL = 'https://secret.annai.ai/link/abc123def456ghi789';
+
+function mockPollResponses(body: unknown) {
+  (fetch as jest.Mock).mockResolvedValue({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => body
+  });
+}
+
+async function flushStorage(store: MemoryStorageAdapter) {
+  // Writes happen in the background; a read queued after them sees the result
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  return store.get('secret-links-sdk:listeners');
+}
+
+describe('WebStorageAdapter', () => {
+  it('should read and write through the Storage object', async () => {
+    const adapter = new WebStorageAdapter(window.localStorage);
+
+    await adapter.set('key', 'value');
+    expect(window.localStorage.getItem('key')).toBe('value');
+    await expect(adapter.get('key')).resolves.toBe('value');
+
+    await adapter.remove('key');
+    await expect(adapter.get('key')).resolves.toBeNull();
+  });
+});
+
+describe('ListenerStore', () => {
+  it('should serialize concurrent updates', async () => {
+    const store = new ListenerStore(new MemoryStorageAdapter(), 'listeners');
+
+    await Promise.all([
+      store.save({ listenerId: 'a', linkUrl: LINK_URL, clientId: 'c1', savedAt: 1 }),
+      store.save({ listenerId: 'b', linkUrl: LINK_URL, clientId: 'c2', savedAt: 1 }),
+      store.updateCursor('a', { lastSeen: 42, cursor: 'c-42' })
+    ]);
+
+    const listeners = await store.load();
+    expect(listeners.map((listener) => listener.listenerId)).toEqual(['a', 'b']);
+    expect(listeners[0]).toEqual(expect.objectContaining({ lastSeen: 42, cursor: 'c-42' }));
+  });
+});
+
+describe('SecretLinksSDK persistence', () => {
+  beforeEach(() => {
+    (fetch as jest.Mock).mockReset();
+  });
+
+  it('should save listeners and restore them with their cursor', async () => {
+    const storage = new MemoryStorageAdapter();
+    mockPollResponses({
+      hasNewContent: true,
+      linkStatus: 'active',
+      payload: { type: 'ping', timestamp: 1, data: 'hello' }
+    });
+
+    const first = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', storage });
+    const listenerId = await first.startListening(LINK_URL);
+    const saved = JSON.parse((await flushStorage(storage)) as string);
+
+    expect(saved).toEqual([
+      expect.objectContaining({ listenerId, linkUrl: LINK_URL, lastSeen: expect.any(Number) })
+    ]);
+
+    // Simulate a reload: halt the first instance's pollers without stopListening,
+    // which would also forget the saved listener
+    const { clientId, lastSeen } = saved[0];
+    (first as unknown as { activeListeners: Map<string, { stop(): void }> }).activeListeners
+      .forEach((poller) => poller.stop());
+
+    mockPollResponses({ hasNewContent: false, linkStatus: 'active' });
+    const second = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', storage });
+    const restored = await second.restore({ onPayload: jest.fn() });
+    second.stopAll();
+
+    expect(restored).toEqual([listenerId]);
+    const calls = (fetch as jest.Mock).mock.calls;
+    const body = JSON.parse(calls[calls.length - 1][1].body);
+    expect(body.clientId).toBe(clientId);
+    expect(body.lastSeen).toBe(lastSeen);
+  });
+
+  it('should forget listeners that are stopped', async () => {
+    const storage = new MemoryStorageAdapter();
+    mockPollResponses({ hasNewContent: false, linkStatus: 'active' });
+
+    const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', storage });
+    const listenerId = await sdk.startListening(LINK_URL);
+    sdk.stopListening(listenerId);
+
+    expect(JSON.parse((await flushStorage(storage)) as string)).toEqual([]);
+  });
+
+  it('should keep saved listeners on dispose', async () => {
+    const storage = new MemoryStorageAdapter();
+    mockPollResponses({ hasNewContent: false, linkStatus: 'active' });
+
+    const first = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', storage });
+    const listenerId = await first.startListening(LINK_URL);
+    await first.dispose();
+
+    const second = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', storage });
+    const restored = await second.restore();
+    second.stopAll();
+
+    expect(restored).toEqual([listenerId]);
+  });
+
+  it('should keep saved listeners that fail to restore for reasons other than validation', async () => {
+    const storage = new MemoryStorageAdapter();
+    mockPollResponses({ hasNewContent: false, linkStatus: 'active' });
+
+    const first = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', storage });
+    const listenerId = await first.startListening(LINK_URL);
+    await first.dispose();
+
+    const onError = jest.fn();
+    const second = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', storage, onError });
+    second.addAsyncValidator('reachable', async () => {
+      throw new Error('Network request failed');
+    });
+    const restored = await second.restore();
+
+    expect(restored).toEqual([]);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Network request failed' }));
+    expect(JSON.parse((await flushStorage(storage)) as string)).toEqual([
+      expect.objectContaining({ listenerId })
+    ]);
+  });
+
+  it('should require a storage adapter for restore', async () => {
+    const sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll' });
+
+    await expect(sdk.restore()).rejects.toMatchObject({
+      name: 'ConfigurationError',
+      code: 'CONFIGURATION_ERROR',
+      message: 'restore() requires the storage option'
+    });
+  });
+});
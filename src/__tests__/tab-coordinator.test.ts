@@ -0,0 +1,234 @@
+import { SecretLinksSDK } from '../secret-links-sdk';
+import { TabCoordinator } from '../tab-coordinator';
+
+const TOKEN = 'abc123def456ghi789';
+const LINK = `https://secret.annai.ai/link/${TOKEN}`;
+
+/**
+ * In-memory BroadcastChannel: every instance is a tab
+ */
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  /** Drop every message, as if the tabs could not hear each other */
+  static partitioned = false;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  private name: string;
+
+  constructor(name: string) {
+    this.name = name;
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    if (FakeBroadcastChannel.partitioned || !FakeBroadcastChannel.channels.includes(this)) {
+      return;
+    }
+    const message = JSON.parse(JSON.stringify(data));
+    for (const channel of FakeBroadcastChannel.channels) {
+      if (channel !== this && channel.name === this.name) {
+        setTimeout(() => channel.onmessage?.({ data: message }), 0);
+      }
+    }
+  }
+
+  close() {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter((channel) => channel !== this);
+  }
+}
+
+function handlers() {
+  return { onElected: jest.fn(), onDemoted: jest.fn(), onPayload: jest.fn(), onStatusChange: jest.fn() };
+}
+
+describe('TabCoordinator', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeBroadcastChannel.channels = [];
+    FakeBroadcastChannel.partitioned = false;
+    Object.assign(globalThis, { BroadcastChannel: FakeBroadcastChannel });
+  });
+
+  afterEach(() => {
+    delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+    jest.useRealTimers();
+  });
+
+  it('should elect a single leader and fail over when it stops sending heartbeats', async () => {
+    const first = handlers();
+    const second = handlers();
+    const tabA = new TabCoordinator();
+    jest.advanceTimersByTime(1);
+    const tabB = new TabCoordinator();
+
+    const linkA = tabA.join(TOKEN, 'listener-1', first);
+    await jest.advanceTimersByTimeAsync(300);
+    const linkB = tabB.join(TOKEN, 'listener-1', second);
+    await jest.advanceTimersByTimeAsync(300);
+
+    expect(linkA.getRole()).toBe('leader');
+    expect(linkB.getRole()).toBe('follower');
+    expect(second.onElected).not.toHaveBeenCalled();
+
+    // Tab A freezes: no more heartbeats reach tab B
+    FakeBroadcastChannel.channels[0].close();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(linkB.getRole()).toBe('leader');
+    expect(second.onElected).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand over immediately when the leader leaves', async () => {
+    const second = handlers();
+    const linkA = new TabCoordinator().join(TOKEN, 'listener-1', handlers());
+    await jest.advanceTimersByTimeAsync(300);
+    const linkB = new TabCoordinator().join(TOKEN, 'listener-1', second);
+    await jest.advanceTimersByTimeAsync(0);
+
+    linkA.leave();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(linkB.getRole()).toBe('leader');
+    expect(second.onElected).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let the older tab win when two leaders meet', async () => {
+    const older = handlers();
+    const newer = handlers();
+    const tabA = new TabCoordinator();
+    jest.advanceTimersByTime(1);
+    const tabB = new TabCoordinator();
+
+    // Both claim the link before hearing from each other
+    FakeBroadcastChannel.partitioned = true;
+    const linkB = tabB.join(TOKEN, 'listener-1', newer);
+    const linkA = tabA.join(TOKEN, 'listener-1', older);
+    await jest.advanceTimersByTimeAsync(300);
+    expect([linkA.getRole(), linkB.getRole()]).toEqual(['leader', 'leader']);
+
+    // The next heartbeats resolve the conflict
+    FakeBroadcastChannel.partitioned = false;
+    await jest.advanceTimersByTimeAsync(2100);
+
+    expect(linkA.getRole()).toBe('leader');
+    expect(linkB.getRole()).toBe('follower');
+    expect(newer.onDemoted).toHaveBeenCalledTimes(1);
+  });
+
+  it('should relay payloads and status changes from the leader', async () => {
+    const follower = handlers();
+    const leader = new TabCoordinator().join(TOKEN, 'listener-1', handlers());
+    await jest.advanceTimersByTimeAsync(300);
+    new TabCoordinator().join(TOKEN, 'listener-1', follower);
+    await jest.advanceTimersByTimeAsync(0);
+
+    const payload = { id: 'p-1', type: 'ping' as const, timestamp: 1, data: 'hi' };
+    leader.publishPayload(payload);
+    leader.publishPayload(payload);
+    leader.publishStatus('expired');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(follower.onPayload).toHaveBeenCalledTimes(1);
+    expect(follower.onPayload).toHaveBeenCalledWith(payload);
+    expect(follower.onStatusChange).toHaveBeenCalledWith('expired');
+  });
+
+  it('should not leave relayed payloads in localStorage with the storage fallback', async () => {
+    delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+    const tab = new TabCoordinator();
+    const link = tab.join(TOKEN, 'listener-1', handlers());
+    await jest.advanceTimersByTimeAsync(300);
+
+    link.publishPayload({ type: 'ping', timestamp: 1, data: { secret: 'plaintext' } });
+
+    expect(setItem).toHaveBeenCalledWith('secret-links-sdk:message', expect.stringContaining('plaintext'));
+    expect(localStorage.getItem('secret-links-sdk:message')).toBeNull();
+    link.leave();
+    setItem.mockRestore();
+  });
+});
+
+describe('SecretLinksSDK coordination', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeBroadcastChannel.channels = [];
+    FakeBroadcastChannel.partitioned = false;
+    Object.assign(globalThis, { BroadcastChannel: FakeBroadcastChannel });
+    (fetch as jest.Mock).mockReset();
+  });
+
+  afterEach(() => {
+    delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+    jest.useRealTimers();
+  });
+
+  it('should poll from one tab and deliver payloads in every tab', async () => {
+    const empty = { ok: true, json: async () => ({ hasNewContent: false, linkStatus: 'active' }) };
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(empty)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          hasNewContent: true,
+          linkStatus: 'active',
+          payload: { id: 'p-1', type: 'ping', timestamp: 1, data: 'hello' }
+        })
+      })
+      .mockResolvedValue(empty);
+    const tabs = [1, 2].map(() => new SecretLinksSDK({
+      pollingEndpoint: 'https://example.com/api/poll',
+      coordination: true
+    }));
+    const onPayloadA = jest.fn();
+    const onPayloadB = jest.fn();
+
+    const listenerB = await tabs[1].startListening(LINK, { onPayload: onPayloadB });
+    await jest.advanceTimersByTimeAsync(300);
+    await tabs[0].startListening(LINK, { onPayload: onPayloadA });
+    await jest.advanceTimersByTimeAsync(10100);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(onPayloadA).toHaveBeenCalledWith(expect.objectContaining({ data: 'hello' }), expect.anything());
+    expect(onPayloadB).toHaveBeenCalledWith(expect.objectContaining({ data: 'hello' }), expect.anything());
+    expect(tabs[1].getListenerStatus(listenerB)).toEqual(expect.objectContaining({ role: 'leader' }));
+
+    tabs.forEach((sdk) => sdk.stopAll());
+  });
+
+  it('should not deliver a relayed payload again after taking over', async () => {
+    // The server sends the payload until it is acknowledged
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ hasNewContent: false, linkStatus: 'active' }) })
+      .mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          hasNewContent: true,
+          linkStatus: 'active',
+          payload: { id: 'p-1', type: 'ping', timestamp: 1, data: 'hello' }
+        })
+      });
+    const tabs = [1, 2].map(() => new SecretLinksSDK({
+      pollingEndpoint: 'https://example.com/api/poll',
+      coordination: true
+    }));
+    const onPayloadA = jest.fn();
+
+    await tabs[1].startListening(LINK);
+    await jest.advanceTimersByTimeAsync(300);
+    const listenerA = await tabs[0].startListening(LINK, { onPayload: onPayloadA });
+    await jest.advanceTimersByTimeAsync(10100);
+    expect(onPayloadA).toHaveBeenCalledTimes(1);
+
+    // The leader tab goes silent; tab A takes over and polls itself
+    FakeBroadcastChannel.channels = [];
+    tabs[1].stopAll();
+    await jest.advanceTimersByTimeAsync(5100);
+
+    expect(tabs[0].getListenerStatus(listenerA)).toEqual(expect.objectContaining({ role: 'leader', lastSeen: 1 }));
+    const bodies = (fetch as jest.Mock).mock.calls.map(([, init]) => JSON.parse(init.body));
+    expect(bodies[bodies.length - 1]).toEqual(expect.objectContaining({ lastSeen: 1, ack: ['p-1'] }));
+    expect(onPayloadA).toHaveBeenCalledTimes(1);
+
+    tabs[0].stopAll();
+  });
+});
@@ -0,0 +1,103 @@
+import { SecretLinksSDK } from '../secret-links-sdk';
+import { HttpError, NetworkError } from '../errors';
+import { MockSecretLinksServer } from '../testing';
+
+const TOKEN = 'abc123def456ghi789';
+const LINK = `https://secret.annai.ai/link/${TOKEN}`;
+
+describe('MockSecretLinksServer', () => {
+  let server: MockSecretLinksServer;
+  let sdk: SecretLinksSDK;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    server = new MockSecretLinksServer().install();
+    sdk = new SecretLinksSDK({ pollingEndpoint: server.endpoint });
+  });
+
+  afterEach(() => {
+    sdk.stopAll();
+    server.uninstall();
+    jest.useRealTimers();
+  });
+
+  it('should deliver emitted payloads on the next poll', async () => {
+    const onPayload = jest.fn();
+    await sdk.startListening(LINK, { onPayload });
+    expect(onPayload).not.toHaveBeenCalled();
+
+    const [payload] = server.emit(TOKEN, { data: { hello: 'world' } });
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(onPayload).toHaveBeenCalledWith(payload, expect.objectContaining({ token: TOKEN }));
+    expect(server.pendingPayloads(TOKEN)).toEqual([]);
+    expect(server.pollCount(TOKEN)).toBe(2);
+  });
+
+  it('should report status changes and stop polling terminal links', async () => {
+    const onStatusChange = jest.fn();
+    server.setStatus(TOKEN, 'expired');
+
+    await sdk.startListening(LINK, { onStatusChange });
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(onStatusChange).toHaveBeenCalledWith('expired', expect.objectContaining({ token: TOKEN }));
+    expect(server.pollCount(TOKEN)).toBe(1);
+  });
+
+  it('should inject HTTP and network errors', async () => {
+    const onError = jest.fn();
+    server.failNext({ status: 503, statusText: 'Service Unavailable' });
+    server.failNext('network');
+
+    await sdk.startListening(LINK, { onError });
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(onError).toHaveBeenCalledWith(expect.any(HttpError), expect.anything());
+    expect(onError).toHaveBeenCalledWith(expect.any(NetworkError), expect.anything());
+  });
+
+  it('should delay responses by the configured latency', async () => {
+    server.setLatency(500);
+    const onPayload = jest.fn();
+    server.emit(TOKEN, { data: 1 });
+
+    const started = sdk.startListening(LINK, { onPayload });
+    await jest.advanceTimersByTimeAsync(499);
+    expect(onPayload).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    await started;
+    expect(onPayload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should split payloads across polls with hasMore', async () => {
+    server = new MockSecretLinksServer({ maxPayloadsPerPoll: 2 }).install();
+    const onPayload = jest.fn();
+    server.emit(TOKEN, { data: 1 }, { data: 2 }, { data: 3 });
+
+    await sdk.startListening(LINK, { onPayload });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(onPayload.mock.calls.map(([payload]) => payload.data)).toEqual([1, 2, 3]);
+    server.uninstall();
+  });
+
+  it('should reject requests without the expected apiKey', async () => {
+    const secured = new MockSecretLinksServer({ apiKey: 'key-1' });
+
+    const response = await secured.fetch(secured.endpoint, {
+      method: 'POST',
+      body: JSON.stringify({ token: TOKEN, type: 'ping' })
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should resolve waitForPoll with the next request', async () => {
+    const poll = server.waitForPoll(TOKEN);
+    await sdk.startListening(LINK);
+
+    await expect(poll).resolves.toEqual(expect.objectContaining({ token: TOKEN, type: 'ping' }));
+  });
+});
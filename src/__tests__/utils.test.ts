@@ -46,6 +46,26 @@ describe('parseLink', () => {
     });
   });
 
+  it('should explain why a link was rejected', () => {
+    const cases: Array<[string, string]> = [
+      ['', 'INVALID_URL'],
+      ['not-a-url', 'INVALID_URL'],
+      ['http://secret.annai.ai/link/abc123def456ghi789', 'INVALID_URL'],
+      ['https://secret.annai.ai/not-link/abc123def456ghi789', 'INVALID_URL'],
+      ['https://secret.annai.ai/link/', 'INVALID_TOKEN'],
+      ['https://secret.annai.ai/link/abc', 'INVALID_TOKEN']
+    ];
+
+    cases.forEach(([url, code]) => {
+      const result = parseLink(url);
+      expect(result.errors).toEqual([{ code, message: expect.any(String) }]);
+    });
+  });
+
+  it('should not set errors on valid links', () => {
+    expect(parseLink('https://secret.annai.ai/link/abc123def456ghi789').errors).toBeUndefined();
+  });
+
   it('should handle custom domains', () => {
     const result = parseLink('https://my-custom-domain.com/link/abc123def456ghi789');
     
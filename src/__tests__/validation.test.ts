@@ -0,0 +1,48 @@
+import { applyBuiltInRules, matchesDomain, normalizeValidatorResult } from '../validation';
+import { parseLink } from '../utils';
+
+describe('matchesDomain', () => {
+  it('should match exact domains', () => {
+    expect(matchesDomain('secret.annai.ai', 'secret.annai.ai')).toBe(true);
+    expect(matchesDomain('other.annai.ai', 'secret.annai.ai')).toBe(false);
+  });
+
+  it('should match wildcard subdomains only', () => {
+    expect(matchesDomain('links.example.com', '*.example.com')).toBe(true);
+    expect(matchesDomain('a.b.example.com', '*.example.com')).toBe(true);
+    expect(matchesDomain('example.com', '*.example.com')).toBe(false);
+    expect(matchesDomain('badexample.com', '*.example.com')).toBe(false);
+  });
+});
+
+describe('applyBuiltInRules', () => {
+  const linkInfo = parseLink('https://links.example.com/link/abc123def456ghi789');
+
+  it('should accept wildcard allowed domains', () => {
+    const issues = applyBuiltInRules(linkInfo, { allowedDomains: ['*.example.com'] }, { url: '', activeLinks: [] });
+    expect(issues).toEqual([]);
+  });
+
+  it('should reject blocked tokens', () => {
+    const issues = applyBuiltInRules(linkInfo, { blockedTokens: ['abc123def456ghi789'] }, { url: '', activeLinks: [] });
+    expect(issues.map((issue) => issue.code)).toEqual(['TOKEN_BLOCKED']);
+  });
+
+  it('should enforce maxListenersPerDomain', () => {
+    const other = parseLink('https://links.example.com/link/zzz123def456ghi789');
+    const validation = { maxListenersPerDomain: 1 };
+
+    expect(applyBuiltInRules(linkInfo, validation, { url: '', activeLinks: [] })).toEqual([]);
+    expect(applyBuiltInRules(linkInfo, validation, { url: '', activeLinks: [other] })[0].code).toBe('TOO_MANY_LISTENERS');
+  });
+});
+
+describe('normalizeValidatorResult', () => {
+  it('should convert messages and issues into tagged issues', () => {
+    expect(normalizeValidatorResult(undefined, 'rule')).toEqual([]);
+    expect(normalizeValidatorResult('Nope', 'rule')).toEqual([{ code: 'CUSTOM', message: 'Nope', rule: 'rule' }]);
+    expect(normalizeValidatorResult({ code: 'TOKEN_BLOCKED', message: 'Blocked' }, 'rule')).toEqual([
+      { code: 'TOKEN_BLOCKED', message: 'Blocked', rule: 'rule' }
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { createApp, createSSRApp, defineComponent, effectScope, h, nextTick, ref } from 'vue';
+import { renderToString } from 'vue/server-renderer';
+import { SecretLinksSDK } from '../secret-links-sdk';
+import { createSecretLinks, useSecretLink, SecretLinkRefs } from '../vue';
+
+const linkUrl = 'https://secret.annai.ai/link/abc123def456ghi789';
+
+describe('Vue bindings', () => {
+  let sdk: SecretLinksSDK;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (fetch as jest.Mock).mockReset();
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+    });
+    sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 1000 });
+  });
+
+  afterEach(() => {
+    sdk.stopAll();
+    jest.useRealTimers();
+  });
+
+  it('should listen while the component is mounted', async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp: 1, data: 'a' } })
+    });
+    let link!: SecretLinkRefs;
+    const app = createApp(defineComponent({
+      setup() {
+        link = useSecretLink(linkUrl);
+        return () => h('p', link.payloads.value.length);
+      }
+    }));
+    app.use(createSecretLinks(sdk));
+    const container = document.createElement('div');
+
+    app.mount(container);
+    await jest.advanceTimersByTimeAsync(0);
+    await nextTick();
+
+    expect(link.isPolling.value).toBe(true);
+    expect(link.status.value).toBe('active');
+    expect(container.textContent).toBe('1');
+
+    app.unmount();
+    expect(sdk.getActiveListenerCount()).toBe(0);
+  });
+
+  it('should follow a URL ref', async () => {
+    const url = ref<string | null>(linkUrl);
+    const scope = effectScope();
+    const link = scope.run(() => useSecretLink(url, { sdk }))!;
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sdk.getAllListenerStatuses()).toEqual([expect.objectContaining({ token: 'abc123de...' })]);
+
+    url.value = 'https://secret.annai.ai/link/zyx987wvu654tsr321';
+    await nextTick();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sdk.getAllListenerStatuses()).toEqual([expect.objectContaining({ token: 'zyx987wv...' })]);
+
+    url.value = null;
+    await nextTick();
+    expect(sdk.getActiveListenerCount()).toBe(0);
+    expect(link.isPolling.value).toBe(false);
+
+    scope.stop();
+  });
+
+  it('should stop listening when the effect scope is disposed', async () => {
+    const scope = effectScope();
+    scope.run(() => useSecretLink(linkUrl, { sdk }));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sdk.getActiveListenerCount()).toBe(1);
+
+    scope.stop();
+    expect(sdk.getActiveListenerCount()).toBe(0);
+  });
+
+  it('should not poll during server rendering', async () => {
+    const app = createSSRApp(defineComponent({
+      setup() {
+        const { isPolling } = useSecretLink(linkUrl);
+        return () => h('p', String(isPolling.value));
+      }
+    }));
+    app.use(createSecretLinks({ pollingEndpoint: 'https://example.com/api/poll' }));
+
+    expect(await renderToString(app)).toBe('<p>false</p>');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should require the plugin or an sdk option', () => {
+    const scope = effectScope();
+    expect(() => scope.run(() => useSecretLink(linkUrl))).toThrow('createSecretLinks');
+    scope.stop();
+  });
+});
@@ -0,0 +1,137 @@
+import { SecretLinksSDK } from '../secret-links-sdk';
+import { defineSecretLinkListener, SecretLinkListenerElement } from '../web-component';
+
+const linkUrl = 'https://secret.annai.ai/link/abc123def456ghi789';
+
+describe('<secret-link-listener>', () => {
+  let element: SecretLinkListenerElement;
+  let sdk: SecretLinksSDK;
+
+  const part = <T extends HTMLElement>(name: string) => element.shadowRoot?.querySelector(`[part="${name}"]`) as T;
+
+  const typeUrl = (url: string) => {
+    const input = part<HTMLInputElement>('input');
+    input.value = url;
+    input.dispatchEvent(new Event('input'));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (fetch as jest.Mock).mockReset();
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ hasNewContent: false, linkStatus: 'active' })
+    });
+    sdk = new SecretLinksSDK({ pollingEndpoint: 'https://example.com/api/poll', pingInterval: 1000 });
+    element = document.createElement('secret-link-listener') as SecretLinkListenerElement;
+    element.sdk = sdk;
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    element.remove();
+    sdk.stopAll();
+    jest.useRealTimers();
+  });
+
+  it('should be registered when the SDK loads', () => {
+    expect(customElements.get('secret-link-listener')).toBeDefined();
+    expect(defineSecretLinkListener()).toBe(customElements.get('secret-link-listener'));
+  });
+
+  it('should show why a pasted link is invalid', () => {
+    typeUrl('https://secret.annai.ai/link/short');
+
+    expect(element.status).toBe('invalid');
+    expect(element.getAttribute('status')).toBe('invalid');
+    expect(part('error').hidden).toBe(false);
+    expect(part('error').textContent).toContain('Link token');
+    expect(part<HTMLButtonElement>('button').disabled).toBe(true);
+
+    typeUrl(linkUrl);
+    expect(element.status).toBe('idle');
+    expect(part('error').hidden).toBe(true);
+    expect(part<HTMLButtonElement>('button').disabled).toBe(false);
+  });
+
+  it('should start and stop listening from the button', async () => {
+    const statuses: string[] = [];
+    element.addEventListener('secret-link-status', (event) => statuses.push((event as CustomEvent).detail.status));
+    typeUrl(linkUrl);
+
+    part<HTMLButtonElement>('button').click();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(element.status).toBe('listening');
+    expect(part('status').dataset.status).toBe('listening');
+    expect(part<HTMLInputElement>('input').disabled).toBe(true);
+    expect(part('button').textContent).toBe('Stop listening');
+    expect(sdk.getActiveListenerCount()).toBe(1);
+
+    part<HTMLButtonElement>('button').click();
+
+    expect(element.status).toBe('idle');
+    expect(sdk.getActiveListenerCount()).toBe(0);
+    expect(statuses).toEqual(['starting', 'listening', 'idle']);
+  });
+
+  it('should dispatch payloads and link status changes as DOM events', async () => {
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ hasNewContent: true, linkStatus: 'active', payload: { type: 'ping', timestamp: 1, data: 'a' } })
+      })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ hasNewContent: false, linkStatus: 'expired' }) });
+    const onPayload = jest.fn();
+    const onStatus = jest.fn();
+    document.body.addEventListener('secret-link-payload', onPayload);
+    document.body.addEventListener('secret-link-status', onStatus);
+
+    element.value = linkUrl;
+    await element.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(onPayload.mock.calls[0][0].detail.payload).toEqual(expect.objectContaining({ data: 'a' }));
+    expect(onStatus.mock.calls[onStatus.mock.calls.length - 1][0].detail.status).toBe('expired');
+    expect(element.status).toBe('expired');
+    expect(element.listenerId).toBeNull();
+    expect(sdk.getActiveListenerCount()).toBe(0);
+
+    document.body.removeEventListener('secret-link-payload', onPayload);
+    document.body.removeEventListener('secret-link-status', onStatus);
+  });
+
+  it('should dispatch errors', async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' });
+    const onError = jest.fn();
+    element.addEventListener('secret-link-error', onError);
+
+    element.value = linkUrl;
+    await element.start();
+
+    expect(onError.mock.calls[0][0].detail.error.message).toBe('HTTP 500: Internal Server Error');
+  });
+
+  it('should stop listening when removed from the page', async () => {
+    element.value = linkUrl;
+    await element.start();
+
+    element.remove();
+
+    expect(sdk.getActiveListenerCount()).toBe(0);
+  });
+
+  it('should create an SDK from the polling-endpoint attribute', async () => {
+    const standalone = document.createElement('secret-link-listener') as SecretLinkListenerElement;
+    standalone.setAttribute('polling-endpoint', 'https://example.com/api/poll');
+    standalone.setAttribute('value', linkUrl);
+    document.body.appendChild(standalone);
+
+    await standalone.start();
+
+    expect(standalone.sdk).toBeInstanceOf(SecretLinksSDK);
+    expect(standalone.status).toBe('listening');
+    expect(fetch).toHaveBeenCalledWith('https://example.com/api/poll', expect.anything());
+    standalone.remove();
+  });
+});
@@ -1,26 +1,48 @@
+import { ListenOptions, RetryPolicy } from './types';
 import { debugLog } from './utils';
 
 export class AdaptivePoller {
   private baseInterval: number;
   public currentInterval: number;
   private backoffMultiplier: number;
+  private minInterval: number;
   private maxInterval: number;
+  private adaptive: boolean;
   private consecutiveEmpty: number;
+  private consecutiveFailures: number;
+  private policy: RetryPolicy;
   private debug: boolean;
 
-  constructor(_token: string, type: 'ping' | 'webhook', debug = false) {
-    this.baseInterval = type === 'ping' ? 10000 : 60000; // 10s for ping, 1min for webhook
+  constructor(
+    _token: string,
+    type: 'ping' | 'webhook',
+    debug = false,
+    policy: RetryPolicy = {},
+    intervals: ListenOptions = {}
+  ) {
+    this.minInterval = intervals.minInterval ?? 1000; // Minimum 1 second
+    this.maxInterval = intervals.maxInterval ?? policy.maxInterval ?? 300000; // 5 minutes max
+    this.baseInterval = this.clamp(intervals.interval ?? (type === 'ping' ? 10000 : 60000)); // 10s for ping, 1min for webhook
+    this.adaptive = intervals.adaptive ?? true;
     this.currentInterval = this.baseInterval;
-    this.backoffMultiplier = 1.5;
-    this.maxInterval = 300000; // 5 minutes max
+    this.backoffMultiplier = policy.multiplier ?? 1.5;
     this.consecutiveEmpty = 0;
+    this.consecutiveFailures = 0;
+    this.policy = policy;
     this.debug = debug;
   }
 
   adjustInterval(hasNewContent: boolean, nextPollIn?: number): void {
+    this.consecutiveFailures = 0;
+
+    if (!this.adaptive) {
+      // Fixed-interval polling
+      return;
+    }
+
     if (nextPollIn && nextPollIn > 0) {
       // Server suggested next poll interval
-      this.currentInterval = Math.max(nextPollIn, 1000); // Minimum 1 second
+      this.currentInterval = this.clamp(nextPollIn);
       debugLog(this.debug, `Using server-suggested interval: ${this.currentInterval}ms`);
       return;
     }
@@ -33,14 +55,14 @@ export class AdaptivePoller {
     } else {
       // Gradually slow down if no activity
       this.consecutiveEmpty++;
-      
-      if (this.consecutiveEmpty >= 3) {
+
+      if (this.consecutiveEmpty >= (this.policy.emptyPollThreshold ?? 3)) {
         const oldInterval = this.currentInterval;
-        this.currentInterval = Math.min(
-          this.currentInterval * this.backoffMultiplier,
-          this.maxInterval
-        );
-        
+        const grown = this.policy.strategy === 'linear'
+          ? this.currentInterval + (this.policy.increment ?? this.baseInterval)
+          : this.currentInterval * this.backoffMultiplier;
+        this.currentInterval = Math.min(grown, this.maxInterval);
+
         if (oldInterval !== this.currentInterval) {
           debugLog(this.debug, `Backing off polling interval: ${oldInterval}ms -> ${this.currentInterval}ms (${this.consecutiveEmpty} consecutive empty)`);
         }
@@ -48,9 +70,36 @@ export class AdaptivePoller {
     }
   }
 
+  /**
+   * Record a failed poll and compute how long to wait before the next one.
+   * A Retry-After delay from the server takes precedence unless the policy
+   * disables it.
+   * @param retryAfter Delay requested by the server, in ms
+   * @returns Delay before the next poll, in ms
+   */
+  recordFailure(retryAfter?: number): number {
+    this.consecutiveFailures++;
+
+    if (retryAfter !== undefined && this.policy.respectRetryAfter !== false) {
+      debugLog(this.debug, `Server asked to retry after ${retryAfter}ms`);
+      return retryAfter;
+    }
+
+    const backoff = this.policy.errorBackoff || {};
+    const initialDelay = backoff.initialDelay ?? this.baseInterval;
+    const delay = Math.min(
+      initialDelay * Math.pow(backoff.multiplier ?? 2, this.consecutiveFailures - 1),
+      backoff.maxDelay ?? this.maxInterval
+    );
+
+    debugLog(this.debug, `Error backoff: ${delay}ms (${this.consecutiveFailures} consecutive failures)`);
+    return this.applyJitter(delay);
+  }
+
   reset(): void {
     this.currentInterval = this.baseInterval;
     this.consecutiveEmpty = 0;
+    this.consecutiveFailures = 0;
     debugLog(this.debug, `Reset polling interval to base: ${this.baseInterval}ms`);
   }
 
@@ -58,7 +107,39 @@ export class AdaptivePoller {
     return this.currentInterval;
   }
 
+  /**
+   * The current interval with the policy's jitter applied
+   */
+  getNextDelay(): number {
+    return this.applyJitter(this.currentInterval);
+  }
+
   getConsecutiveEmpty(): number {
     return this.consecutiveEmpty;
   }
-}
\ No newline at end of file
+
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+
+  /**
+   * Whether the policy's maxConsecutiveFailures has been reached
+   */
+  hasExhaustedRetries(): boolean {
+    const max = this.policy.maxConsecutiveFailures;
+    return max !== undefined && this.consecutiveFailures >= max;
+  }
+
+  private clamp(interval: number): number {
+    return Math.min(Math.max(interval, this.minInterval), this.maxInterval);
+  }
+
+  private applyJitter(delay: number): number {
+    const jitter = this.policy.jitter ?? 0;
+    if (jitter <= 0) {
+      return delay;
+    }
+    // Spread pollers out so they do not hit the endpoint in lockstep
+    return Math.round(delay * (1 + jitter * (Math.random() * 2 - 1)));
+  }
+}
@@ -0,0 +1,127 @@
+import { BatchOptions, BatchPollRequest, PollRequest, PollResponse } from './types';
+import { HttpClient } from './http';
+import { AbortError, toError } from './errors';
+import { parseBatchResponse } from './schema';
+import { debugLog } from './utils';
+
+interface PendingPoll {
+  request: PollRequest;
+  resolve: (response: PollResponse) => void;
+  reject: (error: Error) => void;
+}
+
+export interface BatchPollerOptions extends BatchOptions {
+  endpoint: string;
+  apiKey?: string;
+  http?: HttpClient;  // Shared with the SDK's pollers; created from apiKey if omitted
+  requestTimeout?: number;
+  debug?: boolean;
+}
+
+/**
+ * Collects poll requests from many LinkPollers and sends them as one HTTP
+ * request. Each LinkPoller still schedules its own polls; requests that fall
+ * due within the same batch window share a round trip.
+ */
+export class BatchPoller {
+  private endpoint: string;
+  private http: HttpClient;
+  private batchWindow: number;
+  private maxBatchSize: number;
+  private requestTimeout: number;
+  private debug: boolean;
+  private queue: PendingPoll[];
+  private timeoutId: ReturnType<typeof setTimeout> | null;
+
+  constructor(options: BatchPollerOptions) {
+    this.endpoint = options.endpoint;
+    this.http = options.http || new HttpClient({ apiKey: options.apiKey });
+    this.batchWindow = options.batchWindow ?? 50;
+    this.maxBatchSize = options.maxBatchSize ?? 50;
+    this.requestTimeout = options.requestTimeout ?? 30000;
+    this.debug = options.debug || false;
+    this.queue = [];
+    this.timeoutId = null;
+  }
+
+  /**
+   * Queue a poll request for the next batch
+   * @param request The poll request for a single link
+   * @param signal Takes the request out of the queue, or stops waiting for
+   * its response if the batch was already sent
+   * @returns Promise resolving with that link's PollResponse
+   */
+  enqueue(request: PollRequest, signal?: AbortSignal): Promise<PollResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError('Request was aborted', { cause: signal.reason }));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(pending);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        reject(new AbortError('Request was aborted', { cause: signal?.reason }));
+      };
+      const pending: PendingPoll = {
+        request,
+        resolve: (response) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(pending);
+
+      if (this.queue.length >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.timeoutId) {
+        this.timeoutId = setTimeout(() => this.flush(), this.batchWindow);
+      }
+    });
+  }
+
+  /**
+   * Send all queued requests immediately
+   */
+  async flush(): Promise<void> {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+
+    const batch = this.queue.splice(0, this.maxBatchSize);
+    if (this.queue.length > 0) {
+      this.timeoutId = setTimeout(() => this.flush(), this.batchWindow);
+    }
+
+    if (batch.length === 0) {
+      return;
+    }
+
+    debugLog(this.debug, 'Sending batch poll', { endpoint: this.endpoint, size: batch.length });
+
+    try {
+      const body: BatchPollRequest = { requests: batch.map((pending) => pending.request) };
+      const result = parseBatchResponse(
+        await this.http.postJson<unknown>(this.endpoint, body, { timeout: this.requestTimeout }),
+        batch.length
+      );
+
+      batch.forEach((pending, index) => pending.resolve(result.responses[index]));
+    } catch (error) {
+      const errorObj = toError(error);
+      debugLog(this.debug, 'Batch poll error', { error: errorObj.message, size: batch.length });
+      batch.forEach((pending) => pending.reject(errorObj));
+    }
+  }
+
+  getQueueSize(): number {
+    return this.queue.length;
+  }
+}
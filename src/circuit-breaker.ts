@@ -0,0 +1,110 @@
+import { CircuitBreakerOptions, CircuitState } from './types';
+import { debugLog } from './utils';
+
+export interface CircuitBreakerConfig extends CircuitBreakerOptions {
+  endpoint: string;
+  onStateChange?: (state: CircuitState, endpoint: string) => void;
+  debug?: boolean;
+}
+
+// How long callers blocked by a half-open trial wait before asking again
+const MIN_TRIAL_WAIT = 100;
+const MAX_TRIAL_WAIT = 1000;
+
+/**
+ * Stops every poller of an endpoint from sending requests once the endpoint
+ * keeps failing. After `resetTimeout` one trial request is let through
+ * (half-open); its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private endpoint: string;
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private onStateChange?: (state: CircuitState, endpoint: string) => void;
+  private debug: boolean;
+  private state: CircuitState;
+  private failures: number;
+  private openedAt: number;
+  private trialInFlight: boolean;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.endpoint = config.endpoint;
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.resetTimeout = config.resetTimeout ?? 30000;
+    this.onStateChange = config.onStateChange;
+    this.debug = config.debug || false;
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Whether a request may be sent now. In the half-open state only the first
+   * caller gets through.
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Milliseconds a blocked caller should wait before asking again
+   */
+  retryIn(): number {
+    if (this.state === 'open') {
+      return Math.max(this.resetTimeout - (Date.now() - this.openedAt), 0);
+    }
+    // Half-open with a trial request in flight; never 0, or blocked callers
+    // would spin until the trial settles
+    return Math.min(Math.max(this.resetTimeout, MIN_TRIAL_WAIT), MAX_TRIAL_WAIT);
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Let another caller make the trial request, e.g. after the trial was
+   * cancelled without an outcome
+   */
+  cancelTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    debugLog(this.debug, `Circuit ${state}`, { endpoint: this.endpoint, failures: this.failures });
+    this.onStateChange?.(state, this.endpoint);
+  }
+}
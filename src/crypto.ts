@@ -0,0 +1,132 @@
+import { EncryptedEnvelope } from './types';
+import { DecryptionError } from './errors';
+
+const ALGORITHM = 'AES-GCM';
+const IV_LENGTH = 12;
+const VALID_KEY_LENGTHS = [16, 24, 32];
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new DecryptionError('WebCrypto (crypto.subtle) is not available in this environment');
+  }
+  return subtle;
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Check whether a value matches the encrypted payload envelope format
+ * @param value Any payload `data` value
+ * @returns true if the value is an EncryptedEnvelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const envelope = value as Record<string, unknown>;
+  return envelope.v === 1 &&
+    envelope.alg === ALGORITHM &&
+    typeof envelope.iv === 'string' &&
+    typeof envelope.ciphertext === 'string';
+}
+
+async function importKey(encryptionKey: string, usage: KeyUsage): Promise<CryptoKey> {
+  let raw: Uint8Array;
+  try {
+    raw = base64UrlDecode(encryptionKey);
+  } catch {
+    throw new DecryptionError('Encryption key is not valid base64url');
+  }
+
+  if (!VALID_KEY_LENGTHS.includes(raw.length)) {
+    throw new DecryptionError(`Encryption key must be 128, 192 or 256 bits, got ${raw.length * 8}`);
+  }
+
+  return getSubtle().importKey('raw', raw as BufferSource, { name: ALGORITHM }, false, [usage]);
+}
+
+/**
+ * Decrypt an encrypted payload envelope with the key from the link fragment
+ * @param envelope The envelope received in `PayloadData.data`
+ * @param encryptionKey Base64url-encoded raw AES key (the URL hash without `#`)
+ * @returns The decrypted JSON value
+ * @throws DecryptionError if the key, envelope or ciphertext is invalid
+ */
+export async function decryptPayload(envelope: EncryptedEnvelope, encryptionKey: string): Promise<unknown> {
+  if (!isEncryptedEnvelope(envelope)) {
+    throw new DecryptionError('Payload is not a valid encrypted envelope');
+  }
+
+  const key = await importKey(encryptionKey, 'decrypt');
+
+  let iv: Uint8Array;
+  let ciphertext: Uint8Array;
+  try {
+    iv = base64UrlDecode(envelope.iv);
+    ciphertext = base64UrlDecode(envelope.ciphertext);
+  } catch {
+    throw new DecryptionError('Envelope iv or ciphertext is not valid base64url');
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await getSubtle().decrypt(
+      { name: ALGORITHM, iv: iv as BufferSource },
+      key,
+      ciphertext as BufferSource
+    );
+  } catch {
+    throw new DecryptionError('Failed to decrypt payload: wrong key or corrupted ciphertext');
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new DecryptionError('Decrypted payload is not valid JSON');
+  }
+}
+
+/**
+ * Encrypt a JSON value into the envelope format understood by `decryptPayload`.
+ * Intended for backends and tests that need to produce encrypted payloads.
+ * @param data Any JSON-serializable value
+ * @param encryptionKey Base64url-encoded raw AES key
+ * @returns The encrypted envelope
+ */
+export async function encryptPayload(data: unknown, encryptionKey: string): Promise<EncryptedEnvelope> {
+  const key = await importKey(encryptionKey, 'encrypt');
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const plaintext = new TextEncoder().encode(JSON.stringify(data));
+
+  const ciphertext = await getSubtle().encrypt(
+    { name: ALGORITHM, iv: iv as BufferSource },
+    key,
+    plaintext as BufferSource
+  );
+
+  return {
+    v: 1,
+    alg: ALGORITHM,
+    iv: base64UrlEncode(iv),
+    ciphertext: base64UrlEncode(new Uint8Array(ciphertext))
+  };
+}
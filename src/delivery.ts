@@ -0,0 +1,74 @@
+import { PayloadData } from './types';
+
+/**
+ * Remembers recently delivered payloads so retried or overlapping poll
+ * responses are not delivered twice, and collects the IDs of delivered
+ * payloads to acknowledge on the next request.
+ */
+export class DeliveryTracker {
+  private windowSize: number;
+  private seen: Set<string>;
+  private pendingAcks: Set<string>;
+
+  constructor(windowSize = 100) {
+    this.windowSize = windowSize;
+    this.seen = new Set();
+    this.pendingAcks = new Set();
+  }
+
+  isDuplicate(payload: PayloadData): boolean {
+    return this.windowSize > 0 && this.seen.has(payloadKey(payload));
+  }
+
+  /**
+   * Record a payload as delivered and queue its acknowledgement
+   */
+  markDelivered(payload: PayloadData): void {
+    if (this.windowSize > 0) {
+      const key = payloadKey(payload);
+      this.seen.delete(key);
+      this.seen.add(key);
+
+      // Sets iterate in insertion order, so the first entry is the oldest
+      while (this.seen.size > this.windowSize) {
+        this.seen.delete(this.seen.values().next().value as string);
+      }
+    }
+
+    this.acknowledge(payload);
+  }
+
+  /**
+   * Queue an acknowledgement without recording the payload again, e.g. when
+   * the server re-sends a payload whose earlier ack was lost
+   */
+  acknowledge(payload: PayloadData): void {
+    if (payload.id) {
+      this.pendingAcks.add(payload.id);
+    }
+  }
+
+  /**
+   * Take the queued acknowledgements for the next request
+   * @returns Payload IDs, or undefined if there is nothing to acknowledge
+   */
+  takeAcks(): string[] | undefined {
+    if (this.pendingAcks.size === 0) {
+      return undefined;
+    }
+    const acks = [...this.pendingAcks];
+    this.pendingAcks.clear();
+    return acks;
+  }
+
+  /**
+   * Put acknowledgements back after the request carrying them failed
+   */
+  restoreAcks(acks: string[] | undefined): void {
+    acks?.forEach((id) => this.pendingAcks.add(id));
+  }
+}
+
+function payloadKey(payload: PayloadData): string {
+  return payload.id ?? `${payload.type}:${payload.timestamp}:${JSON.stringify(payload.data)}`;
+}
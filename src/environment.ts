@@ -0,0 +1,82 @@
+export type EnvironmentChange = 'hidden' | 'visible' | 'online' | 'offline';
+
+export type EnvironmentListener = (change: EnvironmentChange) => void;
+
+/**
+ * Tracks page visibility and network connectivity in browsers. DOM listeners
+ * are attached only while someone is subscribed; outside a browser the page
+ * is always visible and online.
+ */
+export class EnvironmentMonitor {
+  private listeners: Set<EnvironmentListener>;
+  private attached: boolean;
+
+  constructor() {
+    this.listeners = new Set();
+    this.attached = false;
+  }
+
+  isHidden(): boolean {
+    return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+  }
+
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  /**
+   * Receive visibility and connectivity changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: EnvironmentListener): () => void {
+    this.listeners.add(listener);
+    this.attach();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.detach();
+      }
+    };
+  }
+
+  private attach(): void {
+    if (this.attached) {
+      return;
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    this.attached = true;
+  }
+
+  private detach(): void {
+    if (!this.attached) {
+      return;
+    }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+    this.attached = false;
+  }
+
+  private emit(change: EnvironmentChange): void {
+    for (const listener of [...this.listeners]) {
+      listener(change);
+    }
+  }
+
+  private handleVisibilityChange = (): void => this.emit(this.isHidden() ? 'hidden' : 'visible');
+
+  private handleOnline = (): void => this.emit('online');
+
+  private handleOffline = (): void => this.emit('offline');
+}
@@ -0,0 +1,233 @@
+import { LinkStatus, LinkValidationIssue, ValidationErrorReason } from './types';
+
+export type SecretLinksErrorCode =
+  | 'NETWORK_ERROR'
+  | 'HTTP_ERROR'
+  | 'SERVER_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'VALIDATION_ERROR'
+  | 'DECRYPTION_ERROR'
+  | 'TIMEOUT'
+  | 'RETRIES_EXHAUSTED'
+  | 'ABORTED'
+  | 'LINK_CLOSED'
+  | 'CONFIGURATION_ERROR'
+  | 'DISPOSED';
+
+export interface SecretLinksErrorOptions {
+  listenerId?: string;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error the SDK reports. Branch on `instanceof` of the
+ * subclasses below or on `code`.
+ */
+export class SecretLinksError extends Error {
+  readonly code: SecretLinksErrorCode;
+  /** Whether the SDK will keep retrying (polling) after this error */
+  readonly retryable: boolean;
+  /** The listener the error belongs to, if any */
+  listenerId?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, code: SecretLinksErrorCode, options: SecretLinksErrorOptions = {}) {
+    super(message);
+    this.name = 'SecretLinksError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.listenerId = options.listenerId;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The polling endpoint could not be reached (DNS, connection refused, CORS, offline).
+ */
+export class NetworkError extends SecretLinksError {
+  constructor(message: string, options: SecretLinksErrorOptions = {}) {
+    super(message, 'NETWORK_ERROR', { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The polling endpoint answered with a non-2xx HTTP status.
+ */
+export class HttpError extends SecretLinksError {
+  readonly status: number;
+  readonly statusText: string;
+  /** Delay requested by a Retry-After header, in ms */
+  readonly retryAfter?: number;
+
+  constructor(
+    status: number,
+    statusText: string,
+    options: SecretLinksErrorOptions & { retryAfter?: number } = {}
+  ) {
+    super(`HTTP ${status}: ${statusText}`, 'HTTP_ERROR', {
+      retryable: status === 408 || status === 429 || status >= 500,
+      ...options
+    });
+    this.name = 'HttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * The polling endpoint returned a PollResponse with an `error` field.
+ */
+export class ServerError extends SecretLinksError {
+  readonly serverMessage: string;
+
+  constructor(serverMessage: string, options: SecretLinksErrorOptions = {}) {
+    super(`Server error: ${serverMessage}`, 'SERVER_ERROR', { retryable: true, ...options });
+    this.name = 'ServerError';
+    this.serverMessage = serverMessage;
+  }
+}
+
+/**
+ * A poll response or push message does not match the PollResponse shape, or
+ * payload data was rejected by the listener's schema. `issues` lists every
+ * problem as `field: expectation`.
+ */
+export class InvalidResponseError extends SecretLinksError {
+  readonly issues: string[];
+
+  constructor(issues: string[], options: SecretLinksErrorOptions = {}) {
+    super(`Invalid response: ${issues.join('; ')}`, 'INVALID_RESPONSE', { retryable: true, ...options });
+    this.name = 'InvalidResponseError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A link was rejected by URL parsing or by the configured validation rules.
+ */
+export class ValidationError extends SecretLinksError {
+  /** Code of the first failed check */
+  readonly reason: ValidationErrorReason;
+  /** Every failed check */
+  readonly issues: LinkValidationIssue[];
+
+  constructor(
+    message: string,
+    reason: ValidationErrorReason,
+    options: SecretLinksErrorOptions & { issues?: LinkValidationIssue[] } = {}
+  ) {
+    super(message, 'VALIDATION_ERROR', options);
+    this.name = 'ValidationError';
+    this.reason = reason;
+    this.issues = options.issues || [{ code: reason, message }];
+  }
+}
+
+/**
+ * Thrown when an encrypted payload cannot be decrypted with the link's
+ * fragment key (malformed envelope, wrong key, tampered ciphertext).
+ */
+export class DecryptionError extends SecretLinksError {
+  constructor(message: string, options: SecretLinksErrorOptions = {}) {
+    super(message, 'DECRYPTION_ERROR', options);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * An operation did not complete within its time limit.
+ */
+export class TimeoutError extends SecretLinksError {
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number, options: SecretLinksErrorOptions = {}) {
+    super(message, 'TIMEOUT', { retryable: true, ...options });
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * A listener stopped polling after its retry policy's maxConsecutiveFailures.
+ * `cause` is the last failure.
+ */
+export class RetriesExhaustedError extends SecretLinksError {
+  readonly attempts: number;
+
+  constructor(attempts: number, options: SecretLinksErrorOptions = {}) {
+    super(`Stopped polling after ${attempts} consecutive failures`, 'RETRIES_EXHAUSTED', options);
+    this.name = 'RetriesExhaustedError';
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * An AbortSignal passed to listen() or waitForPayload() was aborted. `cause`
+ * is the signal's reason.
+ */
+export class AbortError extends SecretLinksError {
+  constructor(message = 'Listening was aborted', options: SecretLinksErrorOptions = {}) {
+    super(message, 'ABORTED', options);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * The link expired, was deleted or ran out of uses before waitForPayload()
+ * received a matching payload.
+ */
+export class LinkClosedError extends SecretLinksError {
+  readonly status: LinkStatus;
+
+  constructor(status: LinkStatus, options: SecretLinksErrorOptions = {}) {
+    super(`Link is ${status}`, 'LINK_CLOSED', options);
+    this.name = 'LinkClosedError';
+    this.status = status;
+  }
+}
+
+/**
+ * A method was called without the SDK option it needs, e.g. restore()
+ * without `storage`.
+ */
+export class ConfigurationError extends SecretLinksError {
+  constructor(message: string, options: SecretLinksErrorOptions = {}) {
+    super(message, 'CONFIGURATION_ERROR', options);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * A listener was started after dispose().
+ */
+export class DisposedError extends SecretLinksError {
+  constructor(message = 'The SDK has been disposed', options: SecretLinksErrorOptions = {}) {
+    super(message, 'DISPOSED', options);
+    this.name = 'DisposedError';
+  }
+}
+
+/**
+ * Copy of an error tagged with a listener ID. The original is left alone, as
+ * it may be shared, e.g. by every listener of a failed batch poll.
+ */
+export function withListenerId<T extends SecretLinksError>(error: T, listenerId: string | undefined): T {
+  const copy: T = Object.assign(Object.create(Object.getPrototypeOf(error)), error);
+  // Error's own message and stack are not enumerable
+  Object.defineProperties(copy, {
+    message: { value: error.message, writable: true, configurable: true },
+    stack: { value: error.stack, writable: true, configurable: true }
+  });
+  copy.listenerId = listenerId;
+  return copy;
+}
+
+/**
+ * Normalize anything thrown into an Error instance
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
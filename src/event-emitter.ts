@@ -0,0 +1,98 @@
+type EventHandler<Args extends unknown[]> = (...args: Args) => void;
+
+interface Subscription {
+  handler: unknown;
+  once: boolean;
+}
+
+/**
+ * Typed event emitter. Handlers run synchronously in subscription order; a
+ * throwing handler is reported through handleListenerError and does not stop
+ * the others.
+ */
+export class EventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private subscriptions: Map<keyof Events, Subscription[]> = new Map();
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    return this.subscribe(event, handler, false);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @returns Function that removes the handler
+   */
+  once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    return this.subscribe(event, handler, true);
+  }
+
+  /**
+   * Remove a handler added with on() or once()
+   */
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    const subscriptions = this.subscriptions.get(event);
+    if (!subscriptions) {
+      return;
+    }
+
+    const index = subscriptions.findIndex((subscription) => subscription.handler === handler);
+    if (index !== -1) {
+      subscriptions.splice(index, 1);
+    }
+  }
+
+  /**
+   * Call every handler of an event
+   * @returns true if the event had handlers
+   */
+  emit<K extends keyof Events>(event: K, ...args: Events[K]): boolean {
+    const subscriptions = this.subscriptions.get(event);
+    if (!subscriptions || subscriptions.length === 0) {
+      return false;
+    }
+
+    for (const subscription of [...subscriptions]) {
+      if (subscription.once) {
+        this.off(event, subscription.handler as EventHandler<Events[K]>);
+      }
+      try {
+        (subscription.handler as EventHandler<Events[K]>)(...args);
+      } catch (error) {
+        this.handleListenerError(error, event);
+      }
+    }
+
+    return true;
+  }
+
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.subscriptions.get(event)?.length ?? 0;
+  }
+
+  /**
+   * Remove all handlers of one event, or of every event
+   */
+  removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event === undefined) {
+      this.subscriptions.clear();
+    } else {
+      this.subscriptions.delete(event);
+    }
+  }
+
+  protected handleListenerError(error: unknown, event: keyof Events): void {
+    // eslint-disable-next-line no-console
+    console.error(`[SecretLinksSDK] "${String(event)}" handler failed`, error);
+  }
+
+  private subscribe<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>, once: boolean): () => void {
+    const subscriptions = this.subscriptions.get(event) || [];
+    subscriptions.push({ handler, once });
+    this.subscriptions.set(event, subscriptions);
+
+    return () => this.off(event, handler);
+  }
+}
@@ -0,0 +1,280 @@
+import { HttpInterceptor, HttpRequest } from './types';
+import { AbortError, HttpError, InvalidResponseError, NetworkError, TimeoutError, toError } from './errors';
+
+export function buildRequestHeaders(apiKey?: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'SecretLinksSDK/1.0.0',
+    ...(apiKey && { 'Authorization': `Bearer ${apiKey}` })
+  };
+}
+
+export interface HttpClientOptions {
+  apiKey?: string;
+  getAuthToken?: () => string | Promise<string>;  // Called for a bearer token when none is cached and after a 401
+  fetch?: typeof fetch;             // Fetch implementation (default: global fetch)
+  interceptors?: HttpInterceptor[];
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;  // Cancels the request
+  timeout?: number;      // Give up after this many milliseconds; 0 waits forever (default: 0)
+}
+
+/**
+ * Sends JSON requests to the polling endpoint through the configured fetch
+ * and interceptor chain. An SDK shares one client between all its pollers.
+ */
+export class HttpClient {
+  private token?: string;
+  private getAuthToken?: () => string | Promise<string>;
+  private tokenRequest: Promise<string | undefined> | null;
+  private tokenVersion: number;
+  private fetchImpl?: typeof fetch;
+  private interceptors: HttpInterceptor[];
+
+  constructor(options: HttpClientOptions = {}) {
+    this.token = options.apiKey;
+    this.getAuthToken = options.getAuthToken;
+    this.tokenRequest = null;
+    this.tokenVersion = 0;
+    this.fetchImpl = options.fetch;
+    this.interceptors = options.interceptors || [];
+  }
+
+  /**
+   * Replace the bearer token sent with every request, e.g. after rotating an
+   * API key. It is used until a 401 makes the client call getAuthToken.
+   * @param apiKey The new key, or undefined to stop sending one
+   */
+  setApiKey(apiKey: string | undefined): void {
+    this.token = apiKey;
+    this.tokenVersion++;
+    // A refresh already in flight must not overwrite this key
+    this.tokenRequest = null;
+  }
+
+  /**
+   * The bearer token requests are sent with, for authenticating push
+   * channels. A promise only if none is cached and getAuthToken must be asked.
+   */
+  getToken(): string | undefined | Promise<string | undefined> {
+    if (this.token === undefined && this.getAuthToken) {
+      return this.refreshToken(undefined);
+    }
+    return this.token;
+  }
+
+  /**
+   * POST a JSON body and parse the JSON response. onRequest interceptors see
+   * the request before it is sent, onResponse interceptors the parsed body,
+   * and onError interceptors every failure except cancellation.
+   * @throws NetworkError if the request could not be sent
+   * @throws HttpError if the response status is not 2xx
+   * @throws InvalidResponseError if the response body is not JSON
+   * @throws TimeoutError if the response took longer than options.timeout
+   * @throws AbortError if options.signal aborted the request
+   */
+  async postJson<T>(url: string, body: unknown, options: RequestOptions = {}): Promise<T> {
+    let request: HttpRequest = { url, headers: buildRequestHeaders(), body };
+
+    try {
+      let token = this.token;
+      if (token === undefined && this.getAuthToken) {
+        token = await this.refreshToken(undefined);
+      }
+      const prepared = this.prepare(url, body, token);
+      request = prepared instanceof Promise ? await prepared : prepared;
+
+      let sent: { data: unknown; response: Response };
+      try {
+        sent = await this.attempt(request, options);
+      } catch (error) {
+        // The token has expired: get a new one and try once more
+        if (!(error instanceof HttpError && error.status === 401 && this.getAuthToken)) {
+          throw error;
+        }
+        token = await this.refreshToken(token);
+        request = await this.prepare(url, body, token);
+        sent = await this.attempt(request, options);
+      }
+
+      const { data, response } = sent;
+
+      let result = data;
+      for (const interceptor of this.interceptors) {
+        const transformed = await interceptor.onResponse?.(result, response, request);
+        if (transformed !== undefined) {
+          result = transformed;
+        }
+      }
+      return result as T;
+    } catch (error) {
+      return this.recover<T>(toError(error), request);
+    }
+  }
+
+  /**
+   * Get a new token from getAuthToken. Concurrent callers share one call, and
+   * callers whose token was already replaced get the replacement.
+   * @param staleToken The token that was rejected, if any
+   */
+  private refreshToken(staleToken: string | undefined): Promise<string | undefined> {
+    if (this.token !== staleToken) {
+      return Promise.resolve(this.token);
+    }
+
+    if (!this.tokenRequest) {
+      const version = this.tokenVersion;
+      const request = new Promise<string | undefined>((resolve) => resolve(this.getAuthToken?.()))
+        .then((token) => {
+          if (this.tokenVersion === version) {
+            this.token = token;
+            this.tokenVersion++;
+          }
+          return this.token;
+        })
+        .finally(() => {
+          if (this.tokenRequest === request) {
+            this.tokenRequest = null;
+          }
+        });
+      this.tokenRequest = request;
+    }
+    return this.tokenRequest;
+  }
+
+  // Without onRequest interceptors the request is sent in the same tick
+  private prepare(url: string, body: unknown, token: string | undefined): HttpRequest | Promise<HttpRequest> {
+    const request: HttpRequest = { url, headers: buildRequestHeaders(token), body };
+    if (!this.interceptors.some((interceptor) => interceptor.onRequest)) {
+      return request;
+    }
+
+    return this.interceptors.reduce<Promise<HttpRequest>>(
+      async (previous, interceptor) => {
+        const current = await previous;
+        return (await interceptor.onRequest?.(current)) || current;
+      },
+      Promise.resolve(request)
+    );
+  }
+
+  private attempt(request: HttpRequest, options: RequestOptions): Promise<{ data: unknown; response: Response }> {
+    return cancellable(options, request.url, (signal) => this.send(request, signal));
+  }
+
+  /**
+   * Offer a failure to the onError interceptors; the first one to return a
+   * body recovers the request
+   */
+  private async recover<T>(error: Error, request: HttpRequest): Promise<T> {
+    if (error instanceof AbortError) {
+      throw error;
+    }
+
+    let current = error;
+    for (const interceptor of this.interceptors) {
+      if (!interceptor.onError) {
+        continue;
+      }
+      try {
+        const recovered = await interceptor.onError(current, request);
+        if (recovered !== undefined) {
+          return recovered as T;
+        }
+      } catch (replaced) {
+        current = toError(replaced);
+      }
+    }
+    throw current;
+  }
+
+  private async send(request: HttpRequest, signal: AbortSignal): Promise<{ data: unknown; response: Response }> {
+    const fetchImpl = this.fetchImpl || fetch;
+
+    let response: Response;
+    try {
+      response = await fetchImpl(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal
+      });
+    } catch (error) {
+      throw new NetworkError(
+        `Failed to reach ${request.url}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+
+    if (!response.ok) {
+      const retryAfter = response.status === 429 || response.status === 503
+        ? parseRetryAfter(response.headers?.get('Retry-After'))
+        : undefined;
+      throw new HttpError(response.status, response.statusText, { retryAfter });
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      throw new InvalidResponseError(['response: expected JSON'], { cause: error });
+    }
+    return { data, response };
+  }
+}
+
+/**
+ * Run a request that settles as soon as it is aborted or times out, even if
+ * the fetch implementation ignores its signal
+ */
+async function cancellable<T>(options: RequestOptions, url: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const { signal, timeout = 0 } = options;
+  if (signal?.aborted) {
+    throw new AbortError('Request was aborted', { cause: signal.reason });
+  }
+
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const cancelled = new Promise<never>((_resolve, reject) => {
+    onAbort = () => {
+      reject(new AbortError('Request was aborted', { cause: signal?.reason }));
+      controller.abort();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    if (timeout > 0) {
+      timeoutId = setTimeout(() => {
+        reject(new TimeoutError(`Request to ${url} timed out after ${timeout}ms`, timeout));
+        controller.abort();
+      }, timeout);
+    }
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), cancelled]);
+  } finally {
+    clearTimeout(timeoutId);
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Convert a Retry-After header (seconds or HTTP date) to milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
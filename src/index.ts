@@ -1,7 +1,39 @@
 // Main exports for the SDK
 export { SecretLinksSDK } from './secret-links-sdk';
+export type { ListenerEmitter } from './secret-links-sdk';
+export { EventEmitter } from './event-emitter';
+export { LinkStore } from './link-store';
+export type { LinkStoreSubscriber } from './link-store';
+export { defineSecretLinkListener } from './web-component';
+export type {
+  SecretLinkListenerElement,
+  ListenerElementStatus,
+  SecretLinkPayloadDetail,
+  SecretLinkErrorDetail,
+  SecretLinkStatusDetail
+} from './web-component';
 export { LinkPoller } from './link-poller';
 export { AdaptivePoller } from './adaptive-poller';
+export { PushTransport } from './push-transport';
+export type { PushTransportOptions } from './push-transport';
+export { BatchPoller } from './batch-poller';
+export type { BatchPollerOptions } from './batch-poller';
+export { HttpClient } from './http';
+export type { HttpClientOptions, RequestOptions } from './http';
+export { CircuitBreaker } from './circuit-breaker';
+export type { CircuitBreakerConfig } from './circuit-breaker';
+export { EnvironmentMonitor } from './environment';
+export type { EnvironmentChange, EnvironmentListener } from './environment';
+export { TabCoordinator } from './tab-coordinator';
+export type { CoordinationRole, CoordinatedLink, CoordinatedLinkHandlers } from './tab-coordinator';
+export {
+  MemoryStorageAdapter,
+  WebStorageAdapter,
+  IndexedDBStorageAdapter,
+  FileStorageAdapter,
+  createLocalStorageAdapter,
+  createSessionStorageAdapter
+} from './storage';
 
 // Export types for TypeScript users
 export type {
@@ -10,11 +42,67 @@ export type {
   LinkInfo,
   LinkCallbacks,
   PayloadData,
+  PayloadSchema,
   LinkStatus,
   PollRequest,
   PollResponse,
-  PollerOptions
+  PollerOptions,
+  EncryptedEnvelope,
+  TransportType,
+  BatchOptions,
+  BatchPollRequest,
+  BatchPollResponse,
+  LinkValidationIssue,
+  ValidationErrorReason,
+  ValidationContext,
+  ValidatorResult,
+  LinkValidator,
+  AsyncLinkValidator,
+  StorageAdapter,
+  PersistedListener,
+  ListenerCursor,
+  DeliveryMode,
+  RetryPolicy,
+  ErrorBackoff,
+  CircuitBreakerOptions,
+  CircuitState,
+  ListenOptions,
+  BackgroundOptions,
+  PauseReason,
+  CoordinationOptions,
+  ListenerEvents,
+  SDKEvents,
+  PollEndInfo,
+  StreamOptions,
+  WaitForPayloadOptions,
+  LinkStoreOptions,
+  SecretLinkState,
+  HttpRequest,
+  HttpInterceptor
 } from './types';
 
+// Export error classes
+export {
+  SecretLinksError,
+  NetworkError,
+  HttpError,
+  ServerError,
+  InvalidResponseError,
+  ValidationError,
+  DecryptionError,
+  TimeoutError,
+  RetriesExhaustedError,
+  AbortError,
+  LinkClosedError,
+  ConfigurationError,
+  DisposedError
+} from './errors';
+export type { SecretLinksErrorCode, SecretLinksErrorOptions } from './errors';
+
+// Export payload encryption helpers
+export { decryptPayload, encryptPayload, isEncryptedEnvelope } from './crypto';
+
 // Export utilities
-export { parseLink, generateClientId } from './utils';
\ No newline at end of file
+export { parseLink, generateClientId } from './utils';
+export { matchesDomain } from './validation';
+export { parsePollResponse, parsePayloadData } from './schema';
\ No newline at end of file
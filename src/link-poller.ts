@@ -1,11 +1,42 @@
-import { LinkInfo, LinkCallbacks, PollRequest, PollResponse, PollerOptions } from './types';
+import {
+  LinkInfo,
+  LinkCallbacks,
+  ListenerCursor,
+  PayloadData,
+  PollRequest,
+  PollResponse,
+  PollerOptions,
+  DeliveryMode,
+  TransportType,
+  BackgroundOptions,
+  PauseReason,
+  ListenerEvents
+} from './types';
 import { AdaptivePoller } from './adaptive-poller';
+import { PushTransport } from './push-transport';
+import { decryptPayload, isEncryptedEnvelope } from './crypto';
+import {
+  DecryptionError,
+  HttpError,
+  RetriesExhaustedError,
+  SecretLinksError,
+  ServerError,
+  toError,
+  withListenerId
+} from './errors';
+import { BatchPoller } from './batch-poller';
+import { CircuitBreaker } from './circuit-breaker';
+import { EnvironmentChange, EnvironmentMonitor } from './environment';
+import { HttpClient } from './http';
+import { parsePayloadData, parsePollResponse } from './schema';
+import { DeliveryTracker } from './delivery';
+import { EventEmitter } from './event-emitter';
 import { generateClientId, debugLog } from './utils';
 
-export class LinkPoller {
+export class LinkPoller extends EventEmitter<ListenerEvents> {
   private linkInfo: LinkInfo;
   private endpoint: string;
-  private apiKey?: string;
+  private http: HttpClient;
   private callbacks: LinkCallbacks;
   private adaptive: AdaptivePoller;
   private isRunning: boolean;
@@ -13,23 +44,84 @@ export class LinkPoller {
   private debug: boolean;
   private clientId: string;
   private lastSeenTimestamp?: number;
+  private transport: TransportType;
+  private streamEndpoint?: string;
+  private maxReconnectAttempts: number;
+  private streamCredentials: boolean;
+  private streamTokenInUrl: boolean;
+  private push: PushTransport | null;
+  private pushQueue: Promise<void>;
+  private batcher?: BatchPoller;
+  private listenerId?: string;
+  private cursor?: string;
+  private onCursorChange?: (cursor: ListenerCursor) => void;
+  private deliveryMode: DeliveryMode;
+  private delivery: DeliveryTracker;
+  private circuit?: CircuitBreaker;
+  private onGiveUp?: (error: Error) => void;
+  private environment?: EnvironmentMonitor;
+  private background: Required<BackgroundOptions>;
+  private unsubscribeEnvironment: (() => void) | null;
+  private pausedReason: PauseReason | null;
+  private manuallyPaused: boolean;
+  private currentPoll: Promise<void> | null;
+  private requestTimeout: number;
+  private abortController: AbortController | null;
+  private pending: Set<Promise<unknown>>;
 
   constructor(linkInfo: LinkInfo, options: PollerOptions) {
+    super();
     this.linkInfo = linkInfo;
     this.endpoint = options.endpoint;
-    this.apiKey = options.apiKey;
+    this.http = options.http || new HttpClient({ apiKey: options.apiKey });
     this.callbacks = options.callbacks;
-    this.adaptive = new AdaptivePoller(linkInfo.token, linkInfo.type, options.debug);
+    this.adaptive = new AdaptivePoller(linkInfo.token, linkInfo.type, options.debug, options.retryPolicy, {
+      interval: options.interval,
+      minInterval: options.minInterval,
+      maxInterval: options.maxInterval,
+      adaptive: options.adaptive
+    });
     this.isRunning = false;
     this.timeoutId = null;
     this.debug = options.debug || false;
-    this.clientId = generateClientId();
+    this.clientId = options.clientId || generateClientId();
+    this.lastSeenTimestamp = options.lastSeen;
+    this.cursor = options.cursor;
+    this.onCursorChange = options.onCursorChange;
+    this.deliveryMode = options.delivery || 'at-most-once';
+    this.delivery = new DeliveryTracker(options.dedupWindow);
+    this.transport = options.transport || 'poll';
+    this.streamEndpoint = options.streamEndpoint;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.streamCredentials = options.streamCredentials || false;
+    this.streamTokenInUrl = options.streamTokenInUrl || false;
+    this.push = null;
+    this.pushQueue = Promise.resolve();
+    this.batcher = options.batcher;
+    this.listenerId = options.listenerId;
+    this.circuit = options.circuitBreaker;
+    this.onGiveUp = options.onGiveUp;
+    this.environment = options.environment;
+    this.background = {
+      whenHidden: options.background?.whenHidden || 'slow',
+      hiddenSlowdown: options.background?.hiddenSlowdown ?? 5,
+      whenOffline: options.background?.whenOffline || 'pause',
+      pollOnResume: options.background?.pollOnResume ?? true
+    };
+    this.unsubscribeEnvironment = null;
+    this.pausedReason = null;
+    this.manuallyPaused = false;
+    this.currentPoll = null;
+    this.requestTimeout = options.requestTimeout ?? 30000;
+    this.abortController = null;
+    this.pending = new Set();
 
     debugLog(this.debug, `Created poller for ${linkInfo.type} link`, {
       token: linkInfo.token.substring(0, 8) + '...',
       domain: linkInfo.domain,
       hasPassword: linkInfo.hasPassword,
-      clientId: this.clientId
+      clientId: this.clientId,
+      transport: this.transport
     });
   }
 
@@ -40,8 +132,35 @@ export class LinkPoller {
     }
 
     this.isRunning = true;
+    this.abortController = new AbortController();
     debugLog(this.debug, 'Starting poller', { token: this.linkInfo.token.substring(0, 8) + '...' });
-    
+
+    if (this.environment) {
+      this.unsubscribeEnvironment = this.environment.subscribe((change) => this.handleEnvironmentChange(change));
+    }
+
+    if (this.transport !== 'poll' && !PushTransport.isSupported(this.transport)) {
+      debugLog(this.debug, `${this.transport} is not supported in this environment, using polling`);
+      this.transport = 'poll';
+    }
+
+    if (this.transport === 'sse' && this.linkInfo.password) {
+      // SSE could only send the password in the URL, where logs keep it
+      debugLog(this.debug, 'Password-protected links cannot use sse, using polling');
+      this.transport = 'poll';
+    }
+
+    if (this.manuallyPaused) {
+      this.pausedReason = 'manual';
+      debugLog(this.debug, 'Poller is paused; waiting for resume()');
+      return;
+    }
+
+    if (this.transport !== 'poll') {
+      this.startPush(this.transport);
+      return;
+    }
+
     // Start polling immediately
     await this.poll();
   }
@@ -52,126 +171,644 @@ export class LinkPoller {
     }
 
     this.isRunning = false;
-    
+
+    // Cancel the request in flight and drop whatever it still returns
+    this.abortController?.abort();
+    this.abortController = null;
+
     if (this.timeoutId) {
       clearTimeout(this.timeoutId);
       this.timeoutId = null;
     }
 
+    if (this.push) {
+      this.push.close();
+      this.push = null;
+    }
+
+    this.unsubscribeEnvironment?.();
+    this.unsubscribeEnvironment = null;
+    this.pausedReason = null;
+
     debugLog(this.debug, 'Stopped poller', { token: this.linkInfo.token.substring(0, 8) + '...' });
   }
 
-  private async poll(): Promise<void> {
+  /**
+   * Wait for the poll and payload deliveries that are still running, e.g.
+   * after stop() to make sure no callback is mid-flight
+   */
+  async settle(): Promise<void> {
+    await Promise.allSettled([...this.pending]);
+  }
+
+  /**
+   * Stop sending requests until resume(), keeping the cursor, client ID and
+   * interval state. A poll already in flight still completes.
+   */
+  pause(): void {
+    if (this.manuallyPaused) {
+      return;
+    }
+
+    this.manuallyPaused = true;
+    this.pausedReason = 'manual';
+
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+
+    if (this.push) {
+      this.push.close();
+      this.push = null;
+    }
+
+    debugLog(this.debug, 'Paused poller', { token: this.linkInfo.token.substring(0, 8) + '...' });
+  }
+
+  /**
+   * Undo pause(): poll right away (or reconnect a push transport), then
+   * continue at the current interval
+   */
+  resume(): void {
+    if (!this.manuallyPaused) {
+      return;
+    }
+
+    this.manuallyPaused = false;
+    this.pausedReason = null;
+    debugLog(this.debug, 'Resumed poller', { token: this.linkInfo.token.substring(0, 8) + '...' });
+
     if (!this.isRunning) {
       return;
     }
 
-    try {
-      const pollRequest: PollRequest = {
-        token: this.linkInfo.token,
-        type: this.linkInfo.type,
-        password: this.linkInfo.password,
-        clientId: this.clientId,
-        timestamp: Date.now(),
-        lastSeen: this.lastSeenTimestamp
-      };
+    if (this.transport !== 'poll') {
+      this.startPush(this.transport);
+    } else if (!this.currentPoll) {
+      this.poll();
+    }
+  }
 
+  /**
+   * Poll right away instead of waiting for the next scheduled poll, also
+   * while paused. Joins a poll that is already in flight. Push transports
+   * deliver updates as they happen, so this does nothing for them.
+   * @returns Promise that resolves once the poll has been handled
+   */
+  pollNow(): Promise<void> {
+    if (!this.isRunning || this.transport !== 'poll') {
+      return Promise.resolve();
+    }
+
+    if (this.currentPoll) {
+      return this.currentPoll;
+    }
+
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+
+    return this.poll(true);
+  }
+
+  /**
+   * Record a payload that another tab delivered for this link as delivered
+   * here: it is acknowledged with the next request, lastSeen moves past it
+   * and it is skipped if the server sends it again, e.g. after a failover
+   * @returns false if this poller delivered the payload already
+   */
+  recordDelivered(payload: PayloadData): boolean {
+    if (this.delivery.isDuplicate(payload)) {
+      return false;
+    }
+    this.markDelivered(payload);
+    return true;
+  }
+
+  /**
+   * Run a poll unless one is in flight already
+   * @param force Poll even while paused
+   */
+  private poll(force = false): Promise<void> {
+    if (!this.currentPoll) {
+      this.currentPoll = this.track(this.runPoll(force)).finally(() => {
+        this.currentPoll = null;
+      });
+    }
+    return this.currentPoll;
+  }
+
+  private async runPoll(force: boolean): Promise<void> {
+    if (!this.isRunning || !this.abortController) {
+      return;
+    }
+    // Aborted by stop(); a later start() gets a new signal
+    const { signal } = this.abortController;
+
+    this.pausedReason = this.currentPauseReason();
+    if (this.pausedReason && !force) {
+      debugLog(this.debug, `Polling paused while ${this.pausedReason}`);
+      return;
+    }
+
+    if (this.circuit && !this.circuit.canRequest()) {
+      // The endpoint is failing; wait without adding to its load
+      this.scheduleNextPoll(this.circuit.retryIn());
+      return;
+    }
+    const isTrial = this.circuit?.getState() === 'half-open';
+
+    const pollRequest = this.buildRequest();
+    let responded = false;
+    const startedAt = Date.now();
+    this.emit('pollStart', this.linkInfo);
+
+    try {
       debugLog(this.debug, 'Polling endpoint', {
         endpoint: this.endpoint,
         token: this.linkInfo.token.substring(0, 8) + '...',
         type: this.linkInfo.type
       });
 
-      const response = await fetch(this.endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'SecretLinksSDK/1.0.0',
-          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
-        },
-        body: JSON.stringify(pollRequest)
+      const result = await this.request(pollRequest, signal);
+      responded = true;
+      this.circuit?.recordSuccess();
+      this.emit('pollEnd', { duration: Date.now() - startedAt, response: result }, this.linkInfo);
+      const outcome = await this.handleResponse(result, signal);
+      if (outcome === 'stopped') {
+        return;
+      }
+
+      // Adjust polling interval
+      const previousInterval = this.adaptive.getInterval();
+      this.adaptive.adjustInterval(result.hasNewContent, result.nextPollIn);
+      if (this.adaptive.getInterval() !== previousInterval) {
+        this.emit('intervalChange', this.adaptive.getInterval(), previousInterval, this.linkInfo);
+      }
+
+      if (result.hasMore && outcome === 'delivered') {
+        // More payloads are waiting on the server; fetch them right away
+        this.scheduleNextPoll(0);
+      } else {
+        this.scheduleNextPoll();
+      }
+
+    } catch (error) {
+      // The acknowledgements may not have reached the server; send them again
+      this.delivery.restoreAcks(pollRequest.ack);
+
+      if (signal.aborted) {
+        // Stopped while the request was in flight; a cancelled trial says
+        // nothing about the endpoint, so let another poller make it
+        if (isTrial && !responded) {
+          this.circuit?.cancelTrial();
+        }
+        return;
+      }
+
+      if (!responded) {
+        this.emit('pollEnd', { duration: Date.now() - startedAt, error: toError(error) }, this.linkInfo);
+      }
+      const errorObj = this.reportError(error);
+      debugLog(this.debug, 'Poll error', { 
+        error: errorObj.message,
+        token: this.linkInfo.token.substring(0, 8) + '...'
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // Only requests the endpoint failed to answer count towards opening the
+      // circuit; a non-retryable error still proves the endpoint is up
+      if (!responded && this.circuit) {
+        if (!(errorObj instanceof SecretLinksError) || errorObj.retryable) {
+          this.circuit.recordFailure();
+        } else {
+          this.circuit.recordSuccess();
+        }
+      }
+
+      // Back off on errors
+      const delay = this.adaptive.recordFailure(errorObj instanceof HttpError ? errorObj.retryAfter : undefined);
+      if (this.adaptive.hasExhaustedRetries()) {
+        this.giveUp(errorObj);
+        return;
       }
+      this.scheduleNextPoll(delay);
+    }
+  }
+
+  /**
+   * Stop after too many consecutive failures and report why
+   */
+  private giveUp(lastError: Error): void {
+    const error = new RetriesExhaustedError(this.adaptive.getConsecutiveFailures(), {
+      listenerId: this.listenerId,
+      cause: lastError
+    });
+    this.stop();
+    debugLog(this.debug, 'Giving up on link', { token: this.linkInfo.token.substring(0, 8) + '...' });
+    this.reportError(error);
+    this.onGiveUp?.(error);
+  }
+
+  private async request(pollRequest: PollRequest, signal: AbortSignal): Promise<PollResponse> {
+    if (this.batcher) {
+      return parsePollResponse(await this.batcher.enqueue(pollRequest, signal));
+    }
 
-      const result: PollResponse = await response.json();
+    return parsePollResponse(await this.http.postJson(this.endpoint, pollRequest, { signal, timeout: this.requestTimeout }));
+  }
 
-      debugLog(this.debug, 'Poll response received', {
-        hasNewContent: result.hasNewContent,
-        linkStatus: result.linkStatus,
-        nextPollIn: result.nextPollIn
+  // Remember running work so settle() can wait for it
+  private track<T>(promise: Promise<T>): Promise<T> {
+    const remove = () => this.pending.delete(promise);
+    this.pending.add(promise);
+    promise.then(remove, remove);
+    return promise;
+  }
+
+  /**
+   * Deliver an error to onError and the error event, tagging SDK errors with
+   * this listener's ID
+   * @returns The normalized error
+   */
+  private reportError(error: unknown): Error {
+    let errorObj = toError(error);
+    if (errorObj instanceof SecretLinksError && !errorObj.listenerId) {
+      errorObj = withListenerId(errorObj, this.listenerId);
+    }
+    this.callbacks.onError?.(errorObj, this.linkInfo);
+    this.emit('error', errorObj, this.linkInfo);
+    return errorObj;
+  }
+
+  // A throwing event handler is reported like a throwing callback
+  protected handleListenerError(error: unknown, event: keyof ListenerEvents): void {
+    if (event === 'error') {
+      super.handleListenerError(error, event);
+    } else {
+      this.reportError(error);
+    }
+  }
+
+  /**
+   * @param withAcks Take the pending acknowledgements; only pass false when
+   * the request cannot carry them
+   */
+  private buildRequest(withAcks = true): PollRequest {
+    return {
+      token: this.linkInfo.token,
+      type: this.linkInfo.type,
+      password: this.linkInfo.password,
+      clientId: this.clientId,
+      timestamp: Date.now(),
+      lastSeen: this.lastSeenTimestamp,
+      cursor: this.cursor,
+      ack: withAcks ? this.delivery.takeAcks() : undefined
+    };
+  }
+
+  private startPush(kind: 'sse' | 'websocket'): void {
+    if (!this.abortController) {
+      return;
+    }
+    const { signal } = this.abortController;
+    this.pushQueue = Promise.resolve();
+
+    this.push = new PushTransport({
+      kind,
+      url: this.streamEndpoint || this.defaultStreamEndpoint(kind),
+      getRequest: (withAcks) => this.buildRequest(withAcks),
+      // SSE can only send the token in the URL, which is opt-in
+      getAuthToken: kind === 'websocket' || this.streamTokenInUrl ? () => this.http.getToken() : undefined,
+      withCredentials: this.streamCredentials,
+      maxReconnectAttempts: this.maxReconnectAttempts,
+      debug: this.debug,
+      onMessage: (result) => {
+        // One message at a time, so a slow payload (decryption, schema, an
+        // at-least-once handler) cannot be overtaken by a later one
+        this.pushQueue = this.track(this.pushQueue
+          .then(() => this.handleResponse(result, signal))
+          .then(
+            () => this.sendPushAcks(kind),
+            (error) => {
+              if (!signal.aborted) {
+                this.reportError(error);
+              }
+            }
+          ));
+      },
+      onError: (error) => this.reportError(error),
+      onFallback: () => {
+        this.push = null;
+        this.transport = 'poll';
+        this.poll();
+      }
+    });
+    this.push.connect();
+  }
+
+  /**
+   * Acknowledge delivered payloads over the WebSocket right away, or with the
+   * next subscription if it is reconnecting. SSE cannot send anything back,
+   * so its acknowledgements are dropped.
+   */
+  private sendPushAcks(kind: 'sse' | 'websocket'): void {
+    const acks = this.delivery.takeAcks();
+    if (acks && kind === 'websocket' && !this.push?.acknowledge(acks)) {
+      this.delivery.restoreAcks(acks);
+    }
+  }
+
+  private defaultStreamEndpoint(kind: 'sse' | 'websocket'): string {
+    if (kind === 'sse') {
+      return this.endpoint;
+    }
+    const url = new URL(this.endpoint);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return url.toString();
+  }
+
+  /**
+   * Process a poll response or push message: deliver payloads in timestamp
+   * order, report status changes and server errors.
+   * @returns 'stopped' if the link reached a terminal status and the poller
+   * stopped, 'undelivered' if a payload must be offered again, else 'delivered'.
+   * Nothing is delivered once signal has aborted, i.e. after stop().
+   */
+  private async handleResponse(result: PollResponse, signal: AbortSignal): Promise<'delivered' | 'undelivered' | 'stopped'> {
+    debugLog(this.debug, 'Poll response received', {
+      hasNewContent: result.hasNewContent,
+      linkStatus: result.linkStatus,
+      nextPollIn: result.nextPollIn
+    });
+
+    // Handle new content, oldest first; stop at the first payload that must
+    // be offered again so later ones are not delivered out of order
+    let delivered = true;
+    for (const payload of collectPayloads(result)) {
+      if (!(await this.deliver(payload, signal))) {
+        delivered = false;
+        break;
+      }
+    }
+
+    if (signal.aborted) {
+      return 'stopped';
+    }
+
+    // Only move past this response once its payload has been handled
+    if (delivered && result.cursor !== undefined && result.cursor !== this.cursor) {
+      this.cursor = result.cursor;
+      this.onCursorChange?.({ lastSeen: this.lastSeenTimestamp, cursor: this.cursor });
+    }
+
+    // Handle link status changes
+    if (result.linkStatus !== 'active') {
+      this.callbacks.onStatusChange?.(result.linkStatus, this.linkInfo);
+      this.emit('statusChange', result.linkStatus, this.linkInfo);
+      debugLog(this.debug, 'Link status changed', {
+        status: result.linkStatus,
+        token: this.linkInfo.token.substring(0, 8) + '...'
       });
 
-      // Handle new content
-      if (result.hasNewContent && result.payload) {
-        this.lastSeenTimestamp = Date.now();
-        this.callbacks.onPayload?.(result.payload, this.linkInfo);
-        debugLog(this.debug, 'Payload delivered to callback', {
-          payloadType: result.payload.type,
-          timestamp: result.payload.timestamp
-        });
-      }
-
-      // Handle link status changes
-      if (result.linkStatus !== 'active') {
-        this.callbacks.onStatusChange?.(result.linkStatus, this.linkInfo);
-        debugLog(this.debug, 'Link status changed', {
-          status: result.linkStatus,
-          token: this.linkInfo.token.substring(0, 8) + '...'
-        });
-        
-        if (result.linkStatus === 'expired' || result.linkStatus === 'deleted' || result.linkStatus === 'exhausted') {
-          this.stop();
-          return;
+      if (result.linkStatus === 'expired' || result.linkStatus === 'deleted' || result.linkStatus === 'exhausted') {
+        this.stop();
+        return 'stopped';
+      }
+    }
+
+    // Handle errors from server
+    if (result.error) {
+      this.reportError(new ServerError(result.error));
+      debugLog(this.debug, 'Server returned error', { error: result.error });
+    }
+
+    return delivered ? 'delivered' : 'undelivered';
+  }
+
+  /**
+   * Deliver a payload to onPayload unless it was already delivered
+   * @returns false if delivery failed in at-least-once mode and the payload
+   * should be offered again
+   */
+  private async deliver(raw: PayloadData, signal: AbortSignal): Promise<boolean> {
+    if (signal.aborted) {
+      return false;
+    }
+
+    if (this.delivery.isDuplicate(raw)) {
+      this.delivery.acknowledge(raw);
+      debugLog(this.debug, 'Skipped duplicate payload', { id: raw.id, timestamp: raw.timestamp });
+      return true;
+    }
+
+    const payload = await this.preparePayload(raw, signal);
+    if (signal.aborted) {
+      // Stopped while decrypting; the payload stays undelivered
+      return false;
+    }
+
+    if (payload && this.deliveryMode === 'at-least-once') {
+      try {
+        await this.callbacks.onPayload?.(payload, this.linkInfo);
+      } catch (error) {
+        this.reportError(error);
+        debugLog(this.debug, 'Payload handler failed, payload will be offered again', { id: raw.id });
+        return false;
+      }
+      this.markDelivered(raw);
+    } else {
+      // At-most-once: record first so a throwing handler never sees it twice.
+      // Payloads that failed to decrypt or were rejected by the schema are
+      // recorded too; retrying cannot help.
+      this.markDelivered(raw);
+      if (payload) {
+        const handled = this.callbacks.onPayload?.(payload, this.linkInfo);
+        if (handled instanceof Promise) {
+          handled.catch((error) => this.reportError(error));
         }
       }
+    }
+
+    if (payload && !signal.aborted) {
+      this.emit('payload', payload, this.linkInfo);
+      debugLog(this.debug, 'Payload delivered to callback', {
+        payloadType: payload.type,
+        timestamp: payload.timestamp
+      });
+    }
+    return true;
+  }
+
+  private markDelivered(payload: PayloadData): void {
+    this.delivery.markDelivered(payload);
+    this.lastSeenTimestamp = Math.max(this.lastSeenTimestamp ?? 0, payload.timestamp);
+    this.onCursorChange?.({ lastSeen: this.lastSeenTimestamp, cursor: this.cursor });
+  }
+
+  /**
+   * Decrypt the payload data if the link has an encryption key and the data is
+   * an encrypted envelope, then check it with the listener's schema.
+   * Decryption and schema failures are reported through onError.
+   * @returns The payload to deliver, or null if it could not be decrypted or
+   * was rejected by the schema
+   */
+  private async preparePayload(payload: PayloadData, signal: AbortSignal): Promise<PayloadData | null> {
+    const decrypted = await this.decryptPayload(payload, signal);
+    if (!decrypted || !this.callbacks.schema) {
+      return decrypted;
+    }
 
-      // Handle errors from server
-      if (result.error) {
-        const error = new Error(`Server error: ${result.error}`);
-        this.callbacks.onError?.(error, this.linkInfo);
-        debugLog(this.debug, 'Server returned error', { error: result.error });
+    try {
+      return await parsePayloadData(decrypted, this.callbacks.schema);
+    } catch (error) {
+      if (!signal.aborted) {
+        this.reportError(error);
       }
+      debugLog(this.debug, 'Payload rejected by schema', {
+        error: toError(error).message,
+        token: this.linkInfo.token.substring(0, 8) + '...'
+      });
+      return null;
+    }
+  }
 
-      // Adjust polling interval
-      this.adaptive.adjustInterval(result.hasNewContent, result.nextPollIn);
-      this.scheduleNextPoll();
+  private async decryptPayload(payload: PayloadData, signal: AbortSignal): Promise<PayloadData | null> {
+    if (!this.linkInfo.encryptionKey || !isEncryptedEnvelope(payload.data)) {
+      return payload;
+    }
 
+    try {
+      const data = await decryptPayload(payload.data, this.linkInfo.encryptionKey);
+      return { ...payload, data };
     } catch (error) {
-      const errorObj = error instanceof Error ? error : new Error(String(error));
-      this.callbacks.onError?.(errorObj, this.linkInfo);
-      debugLog(this.debug, 'Poll error', { 
-        error: errorObj.message,
+      const decryptionError = error instanceof DecryptionError
+        ? error
+        : new DecryptionError(toError(error).message, { cause: error });
+      if (!signal.aborted) {
+        this.reportError(decryptionError);
+      }
+      debugLog(this.debug, 'Payload decryption failed', {
+        error: decryptionError.message,
         token: this.linkInfo.token.substring(0, 8) + '...'
       });
-      
-      // Slow down on errors
-      this.adaptive.adjustInterval(false);
-      this.scheduleNextPoll();
+      return null;
     }
   }
 
-  private scheduleNextPoll(): void {
+  private scheduleNextPoll(interval = this.adaptive.getNextDelay()): void {
     if (!this.isRunning) {
       return;
     }
 
-    const interval = this.adaptive.getInterval();
+    this.pausedReason = this.currentPauseReason();
+    if (this.pausedReason) {
+      debugLog(this.debug, `Polling paused while ${this.pausedReason}`);
+      return;
+    }
+
+    if (this.background.whenHidden === 'slow' && this.environment?.isHidden()) {
+      interval *= this.background.hiddenSlowdown;
+    }
+
     this.timeoutId = setTimeout(() => this.poll(), interval);
     
     debugLog(this.debug, `Next poll scheduled in ${interval}ms`);
   }
 
+  /**
+   * Why polling is paused right now, if it should be
+   */
+  private currentPauseReason(): PauseReason | null {
+    if (this.manuallyPaused) {
+      return 'manual';
+    }
+    if (!this.environment || this.transport !== 'poll') {
+      return null;
+    }
+    if (this.background.whenOffline === 'pause' && !this.environment.isOnline()) {
+      return 'offline';
+    }
+    if (this.background.whenHidden === 'pause' && this.environment.isHidden()) {
+      return 'hidden';
+    }
+    return null;
+  }
+
+  private handleEnvironmentChange(change: EnvironmentChange): void {
+    if (!this.isRunning || this.transport !== 'poll') {
+      return;
+    }
+
+    const wasPaused = this.pausedReason !== null;
+    const reason = this.currentPauseReason();
+
+    if (reason) {
+      if (this.timeoutId) {
+        clearTimeout(this.timeoutId);
+        this.timeoutId = null;
+      }
+      this.pausedReason = reason;
+      debugLog(this.debug, `Polling paused while ${reason}`);
+      return;
+    }
+
+    // Back in the foreground or online: catch up instead of waiting out a
+    // (possibly slowed-down) timer. An in-flight poll schedules the next one.
+    if ((change === 'visible' || change === 'online' || wasPaused) && !this.currentPoll) {
+      if (this.timeoutId) {
+        clearTimeout(this.timeoutId);
+        this.timeoutId = null;
+      }
+      this.pausedReason = null;
+      debugLog(this.debug, `Resuming polling after ${change}`);
+      if (this.background.pollOnResume) {
+        this.poll();
+      } else {
+        this.scheduleNextPoll();
+      }
+    }
+  }
+
+  getLinkInfo(): LinkInfo {
+    return this.linkInfo;
+  }
+
   getStatus() {
     return {
       isRunning: this.isRunning,
       currentInterval: this.adaptive.getInterval(),
       consecutiveEmpty: this.adaptive.getConsecutiveEmpty(),
+      consecutiveFailures: this.adaptive.getConsecutiveFailures(),
+      circuit: this.circuit?.getState(),
       clientId: this.clientId,
+      lastSeen: this.lastSeenTimestamp,
+      cursor: this.cursor,
+      delivery: this.deliveryMode,
       token: this.linkInfo.token.substring(0, 8) + '...',
-      type: this.linkInfo.type
+      type: this.linkInfo.type,
+      transport: this.transport,
+      isPaused: this.pausedReason !== null,
+      pausedReason: this.pausedReason,
+      hidden: this.environment?.isHidden() ?? false,
+      online: this.environment?.isOnline() ?? true
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * All payloads carried by a response, sorted by timestamp
+ */
+function collectPayloads(result: PollResponse): PayloadData[] {
+  if (!result.hasNewContent) {
+    return [];
+  }
+
+  const payloads = [...(result.payloads || [])];
+  if (result.payload) {
+    payloads.push(result.payload);
+  }
+
+  return payloads.sort((a, b) => a.timestamp - b.timestamp);
+}
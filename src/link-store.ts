@@ -0,0 +1,117 @@
+import type { SecretLinksSDK } from './secret-links-sdk';
+import { LinkStoreOptions, SecretLinkState } from './types';
+import { RetriesExhaustedError, toError } from './errors';
+
+export type LinkStoreSubscriber<T = unknown> = (state: SecretLinkState<T>) => void;
+
+const idleState: SecretLinkState<never> = { payloads: [], status: null, error: null, isPolling: false };
+
+/**
+ * Observable state of one link. The link is listened to while the store has
+ * subscribers: the first subscribe() starts a listener, the last unsubscribe
+ * stops it.
+ *
+ * subscribe() calls the subscriber right away and after every change, which
+ * satisfies both React's useSyncExternalStore and the Svelte store contract.
+ * Both methods are bound, so they can be passed around on their own.
+ */
+export class LinkStore<T = unknown> {
+  private sdk: SecretLinksSDK;
+  private url: string;
+  private options: LinkStoreOptions<T>;
+  private state: SecretLinkState<T>;
+  private subscribers: Set<LinkStoreSubscriber<T>>;
+  private listenerId: string | null;
+  private generation: number;
+
+  constructor(sdk: SecretLinksSDK, url: string, options: LinkStoreOptions<T> = {}) {
+    this.sdk = sdk;
+    this.url = url;
+    this.options = options;
+    this.state = idleState;
+    this.subscribers = new Set();
+    this.listenerId = null;
+    this.generation = 0;
+  }
+
+  /**
+   * Receive the current state and every change
+   * @returns Function that removes the subscriber
+   */
+  subscribe = (subscriber: LinkStoreSubscriber<T>): (() => void) => {
+    this.subscribers.add(subscriber);
+    if (this.subscribers.size === 1) {
+      this.start();
+    }
+    subscriber(this.state);
+
+    return () => {
+      if (this.subscribers.delete(subscriber) && this.subscribers.size === 0) {
+        this.stop();
+      }
+    };
+  };
+
+  getSnapshot = (): SecretLinkState<T> => this.state;
+
+  private start(): void {
+    const generation = ++this.generation;
+    // Ignore callbacks of a listener this store has already stopped
+    const isCurrent = () => generation === this.generation;
+    const { maxPayloads = 100, onPayload, schema, ...listenOptions } = this.options;
+
+    this.state = { ...idleState, isPolling: true };
+
+    this.sdk.startListening<T>(this.url, {
+      schema,
+      onPayload: (payload, linkInfo) => {
+        if (isCurrent()) {
+          this.update({ payloads: [...this.state.payloads, payload].slice(-maxPayloads) });
+          onPayload?.(payload, linkInfo);
+        }
+      },
+      onError: (error) => {
+        if (isCurrent()) {
+          // A listener that gave up has stopped polling
+          this.update({ error, isPolling: this.state.isPolling && !(error instanceof RetriesExhaustedError) });
+        }
+      },
+      onStatusChange: (status) => {
+        if (isCurrent()) {
+          this.update({ status, isPolling: this.state.isPolling && status === 'active' });
+        }
+      }
+    }, listenOptions).then(
+      (listenerId) => {
+        if (!isCurrent()) {
+          // All subscribers left while the first poll ran
+          this.sdk.stopListening(listenerId);
+          return;
+        }
+        this.listenerId = listenerId;
+        this.update({ status: this.state.status || 'active' });
+      },
+      (error) => {
+        if (isCurrent()) {
+          this.update({ error: toError(error), isPolling: false });
+        }
+      }
+    );
+  }
+
+  private stop(): void {
+    this.generation++;
+    if (this.listenerId) {
+      this.sdk.stopListening(this.listenerId);
+      this.listenerId = null;
+    }
+    this.state = idleState;
+  }
+
+  private update(changes: Partial<SecretLinkState<T>>): void {
+    this.state = { ...this.state, ...changes };
+    for (const subscriber of [...this.subscribers]) {
+      subscriber(this.state);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { LinkStatus, PayloadData } from './types';
+
+interface PendingRead<T> {
+  resolve: (result: IteratorResult<PayloadData<T>, undefined>) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Async iterator over the payloads of one listener. Payloads that arrive
+ * while nobody awaits next() are buffered; once the stream ends or fails,
+ * buffered payloads are still handed out before it reports completion or
+ * the error.
+ */
+export class PayloadStream<T = unknown> implements AsyncIterableIterator<PayloadData<T>> {
+  /** The terminal link status that ended the stream, if any */
+  status?: LinkStatus;
+  private buffer: PayloadData<T>[];
+  private pending: PendingRead<T>[];
+  private error: Error | null;
+  private finished: boolean;
+  private onClose: () => void;
+
+  /**
+   * @param onClose Called once when the stream ends, fails or is closed by
+   * the consumer
+   */
+  constructor(onClose: () => void) {
+    this.buffer = [];
+    this.pending = [];
+    this.error = null;
+    this.finished = false;
+    this.onClose = onClose;
+  }
+
+  push(payload: PayloadData<T>): void {
+    if (this.finished) {
+      return;
+    }
+
+    const read = this.pending.shift();
+    if (read) {
+      read.resolve({ value: payload, done: false });
+    } else {
+      this.buffer.push(payload);
+    }
+  }
+
+  /**
+   * End the stream after the buffered payloads
+   * @param status Terminal link status that ended it
+   */
+  end(status?: LinkStatus): void {
+    if (this.finish()) {
+      this.status = status;
+      for (const read of this.pending.splice(0)) {
+        read.resolve({ value: undefined, done: true });
+      }
+    }
+  }
+
+  /**
+   * Fail the stream after the buffered payloads
+   */
+  fail(error: Error): void {
+    if (this.finish()) {
+      this.error = error;
+      for (const read of this.pending.splice(0)) {
+        read.reject(error);
+      }
+    }
+  }
+
+  next(): Promise<IteratorResult<PayloadData<T>, undefined>> {
+    const payload = this.buffer.shift();
+    if (payload) {
+      return Promise.resolve({ value: payload, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      // Report the failure once, then behave like an ended stream
+      this.error = null;
+      return Promise.reject(error);
+    }
+    if (this.finished) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => this.pending.push({ resolve, reject }));
+  }
+
+  /**
+   * Called when a for await loop exits early; stops the listener
+   */
+  return(): Promise<IteratorResult<PayloadData<T>, undefined>> {
+    this.buffer = [];
+    this.error = null;
+    this.end();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  [Symbol.asyncIterator](): PayloadStream<T> {
+    return this;
+  }
+
+  /**
+   * @returns false if the stream had already finished
+   */
+  private finish(): boolean {
+    if (this.finished) {
+      return false;
+    }
+    this.finished = true;
+    this.onClose();
+    return true;
+  }
+}
@@ -0,0 +1,221 @@
+import { PollRequest, PollResponse } from './types';
+import { InvalidResponseError, toError } from './errors';
+import { parsePollResponse } from './schema';
+import { debugLog } from './utils';
+
+export interface PushTransportOptions {
+  kind: 'sse' | 'websocket';
+  url: string;
+  /**
+   * Builds the subscription request; called on every (re)connect. Pending
+   * acknowledgements are only taken when withAcks is set, i.e. when the
+   * request is sent as a message.
+   */
+  getRequest: (withAcks: boolean) => PollRequest;
+  /**
+   * Bearer token for the channel, e.g. HttpClient.getToken. SSE sends it as
+   * access_token in the URL, so only pass short-lived tokens there.
+   */
+  getAuthToken?: () => string | undefined | Promise<string | undefined>;
+  withCredentials?: boolean;  // SSE: send cookies (default: false)
+  maxReconnectAttempts: number;
+  debug?: boolean;
+  onMessage: (response: PollResponse) => void;
+  onError: (error: Error) => void;
+  /** Called once the push channel has failed too many times in a row */
+  onFallback: () => void;
+}
+
+const BASE_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Server push channel over Server-Sent Events or WebSocket. Every message is a
+ * JSON-encoded PollResponse. Reconnects with exponential backoff and gives up
+ * (calling onFallback) after maxReconnectAttempts consecutive failures.
+ */
+export class PushTransport {
+  private options: PushTransportOptions;
+  private socket: EventSource | WebSocket | null;
+  private reconnectTimeoutId: ReturnType<typeof setTimeout> | null;
+  private reconnectAttempts: number;
+  private closed: boolean;
+  private debug: boolean;
+
+  constructor(options: PushTransportOptions) {
+    this.options = options;
+    this.socket = null;
+    this.reconnectTimeoutId = null;
+    this.reconnectAttempts = 0;
+    this.closed = false;
+    this.debug = options.debug || false;
+  }
+
+  /**
+   * Check whether the runtime provides the API needed for a push transport
+   */
+  static isSupported(kind: 'sse' | 'websocket'): boolean {
+    return kind === 'sse'
+      ? typeof EventSource !== 'undefined'
+      : typeof WebSocket !== 'undefined';
+  }
+
+  connect(): void {
+    if (this.closed) {
+      return;
+    }
+
+    let token: string | undefined | Promise<string | undefined>;
+    try {
+      token = this.options.getAuthToken?.();
+    } catch (error) {
+      token = Promise.reject(error);
+    }
+
+    // Open in the same tick when the token is at hand
+    if (!(token instanceof Promise)) {
+      this.open(token);
+      return;
+    }
+    token.then(
+      (value) => {
+        if (!this.closed) {
+          this.open(value);
+        }
+      },
+      (error) => {
+        if (!this.closed) {
+          this.options.onError(toError(error));
+          this.handleDisconnect('Could not get an auth token');
+        }
+      }
+    );
+  }
+
+  close(): void {
+    this.closed = true;
+
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  /**
+   * Send acknowledgements over the WebSocket as an `{ ack }` message
+   * @returns false if they were not sent: SSE cannot send messages, and a
+   * WebSocket only can while it is open
+   */
+  acknowledge(ids: string[]): boolean {
+    if (this.options.kind !== 'websocket' || !this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    (this.socket as WebSocket).send(JSON.stringify({ ack: ids }));
+    return true;
+  }
+
+  private open(authToken: string | undefined): void {
+    debugLog(this.debug, `Opening ${this.options.kind} channel`, {
+      url: this.options.url,
+      attempt: this.reconnectAttempts
+    });
+
+    if (this.options.kind === 'sse') {
+      this.connectEventSource(authToken);
+    } else {
+      this.connectWebSocket(authToken);
+    }
+  }
+
+  private connectEventSource(authToken: string | undefined): void {
+    // EventSource cannot send a body or headers, so the subscription goes in
+    // the query string. Link passwords are never put in URLs; LinkPoller
+    // polls password-protected links instead.
+    const request = this.options.getRequest(false);
+    const url = new URL(this.options.url);
+    url.searchParams.set('token', request.token);
+    url.searchParams.set('type', request.type);
+    if (request.clientId) url.searchParams.set('clientId', request.clientId);
+    if (request.lastSeen !== undefined) url.searchParams.set('lastSeen', String(request.lastSeen));
+    if (authToken) url.searchParams.set('access_token', authToken);
+
+    const source = new EventSource(url.toString(), { withCredentials: this.options.withCredentials || false });
+    source.onopen = () => this.handleOpen();
+    source.onmessage = (event) => this.handleData(event.data);
+    source.onerror = () => {
+      // Take over reconnection from the browser so attempts can be counted
+      source.close();
+      this.handleDisconnect('SSE connection error');
+    };
+    this.socket = source;
+  }
+
+  private connectWebSocket(authToken: string | undefined): void {
+    const socket = new WebSocket(this.options.url);
+    socket.onopen = () => {
+      // Browsers cannot set headers on a WebSocket, so the bearer token
+      // travels in the first message
+      const request = this.options.getRequest(true);
+      socket.send(JSON.stringify({ ...request, ...(authToken && { authorization: `Bearer ${authToken}` }) }));
+      this.handleOpen();
+    };
+    socket.onmessage = (event) => this.handleData(event.data);
+    socket.onclose = (event) => this.handleDisconnect(`WebSocket closed (code ${event.code})`);
+    this.socket = socket;
+  }
+
+  private handleOpen(): void {
+    this.reconnectAttempts = 0;
+    debugLog(this.debug, `${this.options.kind} channel open`);
+  }
+
+  private handleData(raw: unknown): void {
+    let data: unknown;
+    try {
+      data = JSON.parse(String(raw));
+    } catch {
+      this.options.onError(new InvalidResponseError([`${this.options.kind} message: expected JSON`]));
+      return;
+    }
+
+    let message: PollResponse;
+    try {
+      message = parsePollResponse(data);
+    } catch (error) {
+      this.options.onError(toError(error));
+      return;
+    }
+    this.options.onMessage(message);
+  }
+
+  private handleDisconnect(reason: string): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.socket = null;
+    this.reconnectAttempts++;
+
+    if (this.reconnectAttempts > this.options.maxReconnectAttempts) {
+      debugLog(this.debug, `${this.options.kind} channel failed, falling back to polling`, { reason });
+      this.close();
+      this.options.onFallback();
+      return;
+    }
+
+    const delay = Math.min(
+      BASE_RECONNECT_DELAY * Math.pow(2, this.reconnectAttempts - 1),
+      MAX_RECONNECT_DELAY
+    );
+    debugLog(this.debug, `${this.options.kind} channel disconnected, reconnecting in ${delay}ms`, { reason });
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      this.connect();
+    }, delay);
+  }
+}
@@ -0,0 +1,114 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { LinkInfo, LinkStoreOptions, LinkValidationIssue, SecretLinkState } from '../types';
+import { useSecretLinksSDK } from './provider';
+
+export interface UseSecretLinkOptions<T = unknown> extends LinkStoreOptions<T> {
+  enabled?: boolean;  // Set to false to stop listening without unmounting (default: true)
+}
+
+export interface LinkValidationState {
+  linkInfo: LinkInfo | null;  // null for an empty URL
+  isValid: boolean;
+  errors: LinkValidationIssue[];
+  isValidating: boolean;      // Asynchronous validators are still running
+  error: Error | null;        // An asynchronous validator threw
+}
+
+const idleState: SecretLinkState<never> = { payloads: [], status: null, error: null, isPolling: false };
+
+/**
+ * Listen to a link while the component is mounted. The listener restarts
+ * when the URL or the polling options change and stops on unmount. Nothing
+ * polls during server rendering.
+ * @param url The Secret Links URL, or null/undefined to not listen
+ */
+export function useSecretLink<T = unknown>(
+  url: string | null | undefined,
+  options: UseSecretLinkOptions<T> = {}
+): SecretLinkState<T> {
+  const sdk = useSecretLinksSDK();
+  const { enabled = true, onPayload, schema, ...storeOptions } = options;
+
+  // Read the latest callback and schema without restarting the listener on
+  // every render
+  const onPayloadRef = useRef(onPayload);
+  const schemaRef = useRef(schema);
+  useEffect(() => {
+    onPayloadRef.current = onPayload;
+    schemaRef.current = schema;
+  });
+  const hasSchema = !!schema;
+
+  // Compare option objects by value; callers usually pass inline literals
+  const storeOptionsKey = JSON.stringify(storeOptions);
+
+  const store = useMemo(
+    () => (url && enabled
+      ? sdk.createLinkStore<T>(url, {
+        ...JSON.parse(storeOptionsKey),
+        onPayload: (payload, linkInfo) => onPayloadRef.current?.(payload, linkInfo),
+        ...(hasSchema && {
+          schema: (data: unknown) => {
+            const current = schemaRef.current!;
+            return typeof current === 'function' ? current(data) : current.parse(data);
+          }
+        })
+      })
+      : null),
+    [sdk, url, enabled, storeOptionsKey, hasSchema]
+  );
+  const [state, setState] = useState<SecretLinkState<T>>(idleState);
+
+  // Subscribing starts the listener, so only do it in an effect: effects do
+  // not run during server rendering, and StrictMode's extra mount is undone
+  // by the cleanup
+  useEffect(() => {
+    if (!store) {
+      setState(idleState);
+      return;
+    }
+    return store.subscribe(setState);
+  }, [store]);
+
+  return state;
+}
+
+/**
+ * Validate a link as the user types, with the SDK's validation rules and
+ * validators. Synchronous checks apply immediately; asynchronous validators
+ * run for links that pass them.
+ * @param url The URL to validate; empty values are neither valid nor errors
+ */
+export function useLinkValidation(url: string | null | undefined): LinkValidationState {
+  const sdk = useSecretLinksSDK();
+  const syncResult = useMemo(() => (url ? sdk.validateLink(url) : null), [sdk, url]);
+  const [asyncResult, setAsyncResult] = useState<{ url: string; linkInfo?: LinkInfo; error?: Error } | null>(null);
+
+  useEffect(() => {
+    if (!url || !syncResult?.isValid) {
+      return;
+    }
+
+    let active = true;
+    sdk.validateLinkAsync(url).then(
+      (linkInfo) => active && setAsyncResult({ url, linkInfo }),
+      (error) => active && setAsyncResult({ url, error: error instanceof Error ? error : new Error(String(error)) })
+    );
+
+    return () => {
+      active = false;
+    };
+  }, [sdk, url, syncResult]);
+
+  // Ignore results for a URL that has changed since
+  const settled = asyncResult && asyncResult.url === url ? asyncResult : null;
+  const linkInfo = settled?.linkInfo || syncResult;
+
+  return {
+    linkInfo,
+    isValid: !!linkInfo?.isValid && !settled?.error,
+    errors: linkInfo?.errors || [],
+    isValidating: !!syncResult?.isValid && !settled,
+    error: settled?.error || null
+  };
+}
@@ -0,0 +1,7 @@
+// React bindings for the SDK
+export { SecretLinksProvider, useSecretLinksSDK } from './provider';
+export { useSecretLink, useLinkValidation } from './hooks';
+
+export type { SecretLinksProviderProps } from './provider';
+export type { UseSecretLinkOptions, LinkValidationState } from './hooks';
+export type { SecretLinkState } from '../types';
@@ -0,0 +1,58 @@
+import { createContext, createElement, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+// Runtime imports of the core go through the entry point, which the bundle
+// imports from secret-links-sdk
+import { SecretLinksSDK } from '../index';
+import type { SDKOptions } from '../types';
+
+const SecretLinksContext = createContext<SecretLinksSDK | null>(null);
+
+export interface SecretLinksProviderProps {
+  /** An SDK instance you manage yourself */
+  sdk?: SecretLinksSDK;
+  /** Options for an SDK the provider creates, and disposes when it unmounts */
+  options?: SDKOptions;
+  children?: ReactNode;
+}
+
+/**
+ * Makes an SDK instance available to useSecretLink and useLinkValidation.
+ * Pass either `sdk` or `options`; `options` are read on the first render only.
+ */
+export function SecretLinksProvider({ sdk, options, children }: SecretLinksProviderProps) {
+  // Created once per provider; constructing the SDK has no side effects, so
+  // this is safe during server rendering
+  const [ownSdk] = useState(() => (sdk ? null : createSDK(options)));
+  const disposeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (disposeTimer.current) {
+      clearTimeout(disposeTimer.current);
+      disposeTimer.current = null;
+    }
+    // dispose() keeps saved listeners for restore(). It is deferred because a
+    // disposed SDK cannot be reused, and StrictMode remounts right away.
+    return () => {
+      disposeTimer.current = setTimeout(() => ownSdk?.dispose(), 0);
+    };
+  }, [ownSdk]);
+
+  return createElement(SecretLinksContext.Provider, { value: sdk || ownSdk }, children);
+}
+
+/**
+ * The SDK of the nearest SecretLinksProvider
+ */
+export function useSecretLinksSDK(): SecretLinksSDK {
+  const sdk = useContext(SecretLinksContext);
+  if (!sdk) {
+    throw new Error('Secret Links hooks must be used inside a SecretLinksProvider');
+  }
+  return sdk;
+}
+
+function createSDK(options?: SDKOptions): SecretLinksSDK {
+  if (!options) {
+    throw new Error('SecretLinksProvider requires either the sdk or the options prop');
+  }
+  return new SecretLinksSDK(options);
+}
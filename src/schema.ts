@@ -0,0 +1,139 @@
+import { BatchPollResponse, LinkStatus, PayloadData, PayloadSchema, PollResponse } from './types';
+import { InvalidResponseError, toError } from './errors';
+
+const LINK_STATUSES: LinkStatus[] = ['active', 'expired', 'exhausted', 'deleted'];
+const PAYLOAD_TYPES: PayloadData['type'][] = ['ping', 'webhook'];
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy of an object without its null fields; JSON serializers commonly send
+ * null for optional fields that are absent
+ * @param keep Fields for which null is a value
+ */
+function withoutNulls(value: Fields, keep: string[] = []): Fields {
+  const result: Fields = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field !== null || keep.includes(key)) {
+      result[key] = field;
+    }
+  }
+  return result;
+}
+
+function checkOptional(fields: Fields, key: string, type: 'boolean' | 'string', path: string, issues: string[]): void {
+  if (fields[key] !== undefined && typeof fields[key] !== type) {
+    issues.push(`${path}${key}: expected a ${type}`);
+  }
+}
+
+function checkPayload(value: unknown, path: string, issues: string[]): PayloadData | null {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+
+  // null is valid payload data
+  const payload = withoutNulls(value, ['data']);
+  if (!PAYLOAD_TYPES.includes(payload.type as PayloadData['type'])) {
+    issues.push(`${path}.type: expected one of ${PAYLOAD_TYPES.join(', ')}`);
+  }
+  if (typeof payload.timestamp !== 'number' || !isFinite(payload.timestamp)) {
+    issues.push(`${path}.timestamp: expected a number`);
+  }
+  checkOptional(payload, 'id', 'string', `${path}.`, issues);
+  if (payload.metadata !== undefined && !(isObject(payload.metadata) && typeof payload.metadata.source === 'string')) {
+    issues.push(`${path}.metadata: expected an object with a source`);
+  }
+
+  return payload as unknown as PayloadData;
+}
+
+/**
+ * Check that a poll response or push message has the PollResponse shape.
+ * Null optional fields are treated as absent; payload data is not checked.
+ * @returns The response, without its null fields
+ * @throws InvalidResponseError listing every problem found
+ */
+export function parsePollResponse(value: unknown): PollResponse {
+  if (!isObject(value)) {
+    throw new InvalidResponseError(['response: expected an object']);
+  }
+
+  const response = withoutNulls(value);
+  const issues: string[] = [];
+
+  if (typeof response.hasNewContent !== 'boolean') {
+    issues.push('hasNewContent: expected a boolean');
+  }
+  if (!LINK_STATUSES.includes(response.linkStatus as LinkStatus)) {
+    issues.push(`linkStatus: expected one of ${LINK_STATUSES.join(', ')}`);
+  }
+  if (response.nextPollIn !== undefined &&
+      !(typeof response.nextPollIn === 'number' && isFinite(response.nextPollIn) && response.nextPollIn >= 0)) {
+    issues.push('nextPollIn: expected a non-negative number');
+  }
+  checkOptional(response, 'hasMore', 'boolean', '', issues);
+  checkOptional(response, 'cursor', 'string', '', issues);
+  checkOptional(response, 'error', 'string', '', issues);
+
+  if (response.payload !== undefined) {
+    response.payload = checkPayload(response.payload, 'payload', issues);
+  }
+  if (response.payloads !== undefined) {
+    if (Array.isArray(response.payloads)) {
+      response.payloads = response.payloads.map((payload, index) => checkPayload(payload, `payloads[${index}]`, issues));
+    } else {
+      issues.push('payloads: expected an array');
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new InvalidResponseError(issues);
+  }
+  return response as unknown as PollResponse;
+}
+
+/**
+ * Check that a batch poll response has one entry per request. The entries are
+ * checked by parsePollResponse when they are handed to their pollers.
+ * @param size Number of requests in the batch
+ * @throws InvalidResponseError if the body is not a BatchPollResponse of that size
+ */
+export function parseBatchResponse(value: unknown, size: number): BatchPollResponse {
+  if (!isObject(value)) {
+    throw new InvalidResponseError(['response: expected an object']);
+  }
+  if (!Array.isArray(value.responses)) {
+    throw new InvalidResponseError(['responses: expected an array']);
+  }
+  if (value.responses.length !== size) {
+    throw new InvalidResponseError([`responses: expected ${size} responses, got ${value.responses.length}`]);
+  }
+  return value as unknown as BatchPollResponse;
+}
+
+/**
+ * Call a schema, whether it is a function or has a parse method
+ */
+export function applySchema<T>(schema: PayloadSchema<T>, data: unknown): T | Promise<T> {
+  return typeof schema === 'function' ? schema(data) : schema.parse(data);
+}
+
+/**
+ * Run a schema on the data of a payload
+ * @returns The payload with the data the schema returned
+ * @throws InvalidResponseError (not retryable) if the schema rejected the data
+ */
+export async function parsePayloadData<T>(payload: PayloadData, schema: PayloadSchema<T>): Promise<PayloadData<T>> {
+  try {
+    const data = await applySchema(schema, payload.data);
+    return { ...payload, data };
+  } catch (error) {
+    throw new InvalidResponseError([`data: ${toError(error).message}`], { retryable: false, cause: error });
+  }
+}
@@ -1,8 +1,58 @@
-import { SDKOptions, LinkInfo, LinkCallbacks, ValidationOptions } from './types';
+import {
+  SDKOptions,
+  LinkInfo,
+  LinkCallbacks,
+  LinkValidationIssue,
+  ValidationOptions,
+  ValidationContext,
+  LinkValidator,
+  AsyncLinkValidator,
+  TransportType,
+  PersistedListener,
+  DeliveryMode,
+  RetryPolicy,
+  CircuitState,
+  ListenOptions,
+  BackgroundOptions,
+  LinkStatus,
+  ListenerEvents,
+  SDKEvents,
+  PayloadData,
+  PayloadSchema,
+  StreamOptions,
+  WaitForPayloadOptions,
+  LinkStoreOptions
+} from './types';
 import { LinkPoller } from './link-poller';
-import { parseLink, validateSDKOptions, debugLog } from './utils';
-
-export class SecretLinksSDK {
+import { BatchPoller } from './batch-poller';
+import { HttpClient } from './http';
+import { CircuitBreaker } from './circuit-breaker';
+import { EnvironmentMonitor } from './environment';
+import { CoordinatedLink, TabCoordinator } from './tab-coordinator';
+import { EventEmitter } from './event-emitter';
+import { PayloadStream } from './payload-stream';
+import { LinkStore } from './link-store';
+import {
+  AbortError,
+  ConfigurationError,
+  DisposedError,
+  LinkClosedError,
+  RetriesExhaustedError,
+  TimeoutError,
+  ValidationError,
+  toError
+} from './errors';
+import { ListenerStore } from './storage';
+import { applyBuiltInRules, normalizeValidatorResult } from './validation';
+import { parsePayloadData } from './schema';
+import { parseLink, validateSDKOptions, validateListenOptions, debugLog } from './utils';
+
+/**
+ * Event subscription handle of a single listener
+ */
+export type ListenerEmitter = Pick<EventEmitter<ListenerEvents>, 'on' | 'once' | 'off'>;
+
+export class SecretLinksSDK extends EventEmitter<SDKEvents> {
   private pollingEndpoint: string;
   private apiKey: string | undefined;
   private intervals: {
@@ -14,12 +64,40 @@ export class SecretLinksSDK {
   private debug: boolean;
   private validation: ValidationOptions | undefined;
   private listenerCounter: number;
+  private transport: TransportType;
+  private streamEndpoint: string | undefined;
+  private maxReconnectAttempts: number | undefined;
+  private streamCredentials: boolean;
+  private streamTokenInUrl: boolean;
+  private batcher: BatchPoller | null;
+  private validators: Map<string, { validate: LinkValidator | AsyncLinkValidator; async: boolean }>;
+  private store: ListenerStore | null;
+  private delivery: DeliveryMode;
+  private dedupWindow: number | undefined;
+  private retryPolicy: RetryPolicy | undefined;
+  private circuit: CircuitBreaker | null;
+  private environment: EnvironmentMonitor | null;
+  private background: BackgroundOptions;
+  private coordinator: TabCoordinator | null;
+  private coordinatedLinks: Map<string, CoordinatedLink>;
+  private requestTimeout: number | undefined;
+  private http: HttpClient;
+  private pendingWrites: Set<Promise<void>>;
+  private disposed: boolean;
 
   constructor(options: SDKOptions) {
+    super();
     validateSDKOptions(options);
 
     this.pollingEndpoint = options.pollingEndpoint;
     this.apiKey = options.apiKey;
+    this.requestTimeout = options.requestTimeout;
+    this.http = new HttpClient({
+      apiKey: options.apiKey,
+      getAuthToken: options.getAuthToken,
+      fetch: options.fetch,
+      interceptors: options.interceptors
+    });
     this.intervals = {
       ping: options.pingInterval || 10000,
       webhook: options.webhookInterval || 60000
@@ -29,11 +107,53 @@ export class SecretLinksSDK {
     this.debug = options.debug || false;
     this.validation = options.validation;
     this.listenerCounter = 0;
+    this.validators = new Map();
+    this.store = options.storage
+      ? new ListenerStore(options.storage, options.storageKey || 'secret-links-sdk:listeners')
+      : null;
+    this.transport = options.transport || 'poll';
+    this.streamEndpoint = options.streamEndpoint;
+    this.maxReconnectAttempts = options.maxReconnectAttempts;
+    this.streamCredentials = options.streamCredentials || false;
+    this.streamTokenInUrl = options.streamTokenInUrl || false;
+    this.batcher = options.batch
+      ? new BatchPoller({
+        ...(typeof options.batch === 'object' ? options.batch : {}),
+        endpoint: (typeof options.batch === 'object' && options.batch.endpoint) || this.pollingEndpoint,
+        http: this.http,
+        requestTimeout: this.requestTimeout,
+        debug: this.debug
+      })
+      : null;
+    this.delivery = options.delivery || 'at-most-once';
+    this.dedupWindow = options.dedupWindow;
+    this.retryPolicy = options.retryPolicy;
+    this.circuit = options.circuitBreaker
+      ? new CircuitBreaker({
+        ...(typeof options.circuitBreaker === 'object' ? options.circuitBreaker : {}),
+        endpoint: (typeof options.batch === 'object' && options.batch.endpoint) || this.pollingEndpoint,
+        onStateChange: options.onCircuitChange,
+        debug: this.debug
+      })
+      : null;
+    this.environment = options.background === false ? null : new EnvironmentMonitor();
+    this.background = typeof options.background === 'object' ? options.background : {};
+    this.coordinator = options.coordination
+      ? new TabCoordinator(typeof options.coordination === 'object' ? options.coordination : {}, this.debug)
+      : null;
+    this.coordinatedLinks = new Map();
+    this.pendingWrites = new Set();
+    this.disposed = false;
 
     debugLog(this.debug, 'SDK initialized', {
       pollingEndpoint: this.pollingEndpoint,
+      transport: this.transport,
+      batch: !!this.batcher,
+      circuitBreaker: !!this.circuit,
+      delivery: this.delivery,
       intervals: this.intervals,
       hasApiKey: !!this.apiKey,
+      hasAuthTokenProvider: !!options.getAuthToken,
       validation: this.validation
     });
   }
@@ -41,76 +161,371 @@ export class SecretLinksSDK {
   /**
    * Validate and parse a Secret Links URL
    * @param url The Secret Links URL to validate
-   * @returns LinkInfo object with validation result and parsed data
+   * @returns LinkInfo object with validation result and parsed data; when
+   * invalid, `errors` lists every failed check
    */
   validateLink(url: string): LinkInfo {
-    const linkInfo = parseLink(url);
+    return this.checkLink(url).linkInfo;
+  }
 
-    if (!linkInfo.isValid) {
-      debugLog(this.debug, 'Link validation failed', { url });
-      return linkInfo;
-    }
+  /**
+   * Validate a Secret Links URL including asynchronous validators
+   * @param url The Secret Links URL to validate
+   * @returns Promise<LinkInfo> with validation result; rejects if a validator throws
+   */
+  async validateLinkAsync(url: string): Promise<LinkInfo> {
+    return (await this.checkLinkAsync(url)).linkInfo;
+  }
 
-    // Apply custom validation rules
-    if (this.validation) {
-      const validationError = this.applyValidationRules(linkInfo);
-      if (validationError) {
-        debugLog(this.debug, 'Custom validation failed', { url, error: validationError });
-        return {
-          ...linkInfo,
-          isValid: false
-        };
-      }
-    }
+  /**
+   * Register a synchronous validator that runs after the built-in rules in
+   * both validateLink and startListening
+   * @param name Unique rule name, reported as `rule` on its issues
+   * @param validator Returns nothing if the link passes, otherwise issue(s) or a message
+   */
+  addValidator(name: string, validator: LinkValidator): void {
+    this.validators.set(name, { validate: validator, async: false });
+  }
 
-    debugLog(this.debug, 'Link validated successfully', {
-      token: linkInfo.token.substring(0, 8) + '...',
-      type: linkInfo.type,
-      domain: linkInfo.domain,
-      hasPassword: linkInfo.hasPassword
-    });
+  /**
+   * Register an asynchronous validator (e.g. a check against your API). It runs
+   * in validateLinkAsync and startListening, only for links that passed the
+   * synchronous rules.
+   * @param name Unique rule name, reported as `rule` on its issues
+   * @param validator Resolves to nothing if the link passes, otherwise issue(s) or a message
+   */
+  addAsyncValidator(name: string, validator: AsyncLinkValidator): void {
+    this.validators.set(name, { validate: validator, async: true });
+  }
+
+  /**
+   * Remove a validator registered with addValidator or addAsyncValidator
+   * @returns true if a validator with that name existed
+   */
+  removeValidator(name: string): boolean {
+    return this.validators.delete(name);
+  }
+
+  /**
+   * Replace the API key sent to the polling endpoint. Running listeners use
+   * it from their next request on; no restart is needed.
+   * @param apiKey The new key, or undefined to stop sending one
+   */
+  updateApiKey(apiKey: string | undefined): void {
+    this.apiKey = apiKey;
+    this.http.setApiKey(apiKey);
 
-    return linkInfo;
+    debugLog(this.debug, 'API key updated', { hasApiKey: !!apiKey });
   }
 
   /**
    * Start listening to a Secret Links URL
    * @param linkUrl The Secret Links URL to listen to
    * @param callbacks Callback functions for handling events
+   * @param options Polling overrides for this link (interval, minInterval, maxInterval, adaptive)
    * @returns Promise<string> Unique listener ID for managing this listener
    */
-  async startListening(linkUrl: string, callbacks: LinkCallbacks = {}): Promise<string> {
-    const linkInfo = this.validateLink(linkUrl);
+  async startListening<T = unknown>(
+    linkUrl: string,
+    callbacks: LinkCallbacks<T> = {},
+    options: ListenOptions = {}
+  ): Promise<string> {
+    validateListenOptions(options);
+    // Payload data is checked to be a T only when a schema is given
+    return this.createListener(linkUrl, callbacks as LinkCallbacks, options);
+  }
+
+  /**
+   * Resume the listeners saved in the configured storage adapter, keeping
+   * their listener IDs, client IDs and last-seen cursors
+   * @param callbacks Callbacks for every restored listener, or a function
+   * returning callbacks for a given saved listener
+   * @returns Promise<string[]> IDs of the restored listeners
+   */
+  async restore(
+    callbacks: LinkCallbacks | ((listener: PersistedListener) => LinkCallbacks) = {}
+  ): Promise<string[]> {
+    if (!this.store) {
+      throw new ConfigurationError('restore() requires the storage option');
+    }
+
+    const saved = await this.store.load();
+    const restored: string[] = [];
+
+    for (const listener of saved) {
+      if (this.disposed) {
+        break;
+      }
+      if (this.activeListeners.has(listener.listenerId)) {
+        continue;
+      }
+
+      try {
+        const listenerCallbacks = typeof callbacks === 'function' ? callbacks(listener) : callbacks;
+        restored.push(await this.createListener(listener.linkUrl, listenerCallbacks, listener.options || {}, listener));
+      } catch (error) {
+        // Forget links that no longer pass validation; keep the others (e.g. a
+        // validator that failed on the network) for the next restore
+        if (error instanceof ValidationError) {
+          this.persist(() => this.store?.remove(listener.listenerId));
+        }
+        this.reportError(toError(error));
+      }
+    }
+
+    debugLog(this.debug, 'Restored listeners', { saved: saved.length, restored: restored.length });
+
+    return restored;
+  }
+
+  /**
+   * Iterate over the payloads of a link. The listener starts right away and
+   * stops when the loop exits, the link reaches a terminal status (the
+   * iteration ends) or the signal aborts (next() rejects with AbortError).
+   * Stream listeners are not persisted.
+   * @param linkUrl The Secret Links URL to listen to
+   * @param options Polling overrides, a payload schema and an AbortSignal
+   * @returns Async iterator of payloads
+   */
+  listen<T = unknown>(linkUrl: string, options: StreamOptions<T> = {}): AsyncIterableIterator<PayloadData<T>> {
+    const { signal, schema, ...listenOptions } = options;
+    return this.openStream(linkUrl, listenOptions, signal, schema);
+  }
+
+  /**
+   * Listen to a link until the first (matching) payload arrives, then stop
+   * @param linkUrl The Secret Links URL to listen to
+   * @param options timeout, filter, a payload schema, an AbortSignal and
+   * polling overrides
+   * @returns Promise<PayloadData> that rejects with TimeoutError, AbortError,
+   * LinkClosedError or the error that stopped the listener
+   */
+  async waitForPayload<T = unknown>(linkUrl: string, options: WaitForPayloadOptions<T> = {}): Promise<PayloadData<T>> {
+    const { timeout, filter, signal, schema, ...listenOptions } = options;
+    const stream = this.openStream(linkUrl, listenOptions, signal, schema);
+    const timer = timeout !== undefined
+      ? setTimeout(() => stream.fail(new TimeoutError(`No payload received within ${timeout}ms`, timeout)), timeout)
+      : null;
+
+    try {
+      for await (const payload of stream) {
+        if (!filter || filter(payload)) {
+          return payload;
+        }
+      }
+      throw new LinkClosedError(stream.status || 'deleted');
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  /**
+   * Create an observable store for a link, for UI frameworks. The link is
+   * listened to while the store has subscribers.
+   * @param linkUrl The Secret Links URL to listen to
+   * @param options Polling overrides, maxPayloads and an onPayload callback
+   * @returns LinkStore with subscribe and getSnapshot
+   */
+  createLinkStore<T = unknown>(linkUrl: string, options: LinkStoreOptions<T> = {}): LinkStore<T> {
+    return new LinkStore(this, linkUrl, options);
+  }
+
+  private openStream<T>(
+    linkUrl: string,
+    options: ListenOptions,
+    signal?: AbortSignal,
+    schema?: PayloadSchema<T>
+  ): PayloadStream<T> {
+    validateListenOptions(options);
+
+    let listenerId: string | null = null;
+    const onAbort = () => stream.fail(new AbortError(undefined, { cause: signal?.reason }));
+    const stream = new PayloadStream<T>(() => {
+      signal?.removeEventListener('abort', onAbort);
+      if (listenerId) {
+        this.stopListening(listenerId);
+      }
+    });
+
+    if (signal?.aborted) {
+      onAbort();
+      return stream;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    this.createListener(linkUrl, {
+      onPayload: (payload) => stream.push(payload as PayloadData<T>),
+      schema,
+      onError: (error) => {
+        if (error instanceof RetriesExhaustedError) {
+          stream.fail(error);
+        } else {
+          this.onError(error);
+        }
+      },
+      onStatusChange: (status) => {
+        if (status !== 'active') {
+          stream.end(status);
+        }
+      }
+    }, options, undefined, false).then(
+      (id) => {
+        listenerId = id;
+        // The first poll may already have ended the stream
+        if (stream.isFinished()) {
+          this.stopListening(id);
+        }
+      },
+      (error) => stream.fail(toError(error))
+    );
+
+    return stream;
+  }
+
+  private async createListener(
+    linkUrl: string,
+    callbacks: LinkCallbacks,
+    options: ListenOptions,
+    resume?: PersistedListener,
+    persistent = true
+  ): Promise<string> {
+    const { linkInfo, error } = await this.checkLinkAsync(linkUrl);
     
-    if (!linkInfo.isValid) {
-      throw new Error('Invalid Secret Link URL');
+    if (error) {
+      throw error;
+    }
+
+    if (this.disposed) {
+      throw new DisposedError();
     }
 
     // Generate unique listener ID
     this.listenerCounter++;
-    const listenerId = `listener-${Date.now()}-${this.listenerCounter}`;
+    const listenerId = resume?.listenerId || `listener-${Date.now()}-${this.listenerCounter}`;
+
+    const onError = callbacks.onError || this.onError;
+    const onStatusChange = (status: LinkStatus, info: LinkInfo) => {
+      if (status !== 'active') {
+        this.persist(() => this.store?.remove(listenerId));
+      }
+      callbacks.onStatusChange?.(status, info);
+    };
 
     // Create poller instance
     const poller = new LinkPoller(linkInfo, {
       endpoint: this.pollingEndpoint,
-      apiKey: this.apiKey,
-      interval: this.intervals[linkInfo.type as 'ping' | 'webhook'] || this.intervals.ping,
+      http: this.http,
+      interval: options.interval ?? this.intervals[linkInfo.type],
+      minInterval: options.minInterval,
+      maxInterval: options.maxInterval,
+      adaptive: options.adaptive,
       callbacks: {
-        onPayload: callbacks.onPayload,
-        onError: callbacks.onError || this.onError,
-        onStatusChange: callbacks.onStatusChange
+        // The leader tab forwards payloads and status changes to the other tabs
+        onPayload: this.coordinator
+          ? (payload, info) => {
+            this.coordinatedLinks.get(listenerId)?.publishPayload(payload);
+            return callbacks.onPayload?.(payload, info);
+          }
+          : callbacks.onPayload,
+        schema: callbacks.schema,
+        onError,
+        onStatusChange: (status, info) => {
+          this.coordinatedLinks.get(listenerId)?.publishStatus(status);
+          if (status !== 'active') {
+            this.leaveCoordination(listenerId);
+          }
+          onStatusChange(status, info);
+        }
       },
-      debug: this.debug
+      debug: this.debug,
+      transport: this.transport,
+      streamEndpoint: this.streamEndpoint,
+      maxReconnectAttempts: this.maxReconnectAttempts,
+      streamCredentials: this.streamCredentials,
+      streamTokenInUrl: this.streamTokenInUrl,
+      batcher: this.batcher || undefined,
+      listenerId,
+      clientId: resume?.clientId,
+      lastSeen: resume?.lastSeen,
+      cursor: resume?.cursor,
+      onCursorChange: (cursor) => this.persist(() => this.store?.updateCursor(listenerId, cursor)),
+      delivery: this.delivery,
+      dedupWindow: this.dedupWindow,
+      retryPolicy: this.retryPolicy,
+      circuitBreaker: this.circuit || undefined,
+      environment: this.environment || undefined,
+      background: this.background,
+      requestTimeout: this.requestTimeout,
+      onGiveUp: () => {
+        this.leaveCoordination(listenerId);
+        this.activeListeners.delete(listenerId);
+        this.persist(() => this.store?.remove(listenerId));
+      }
     });
 
+    this.forwardEvents(listenerId, poller);
+
     // Store the poller
     this.activeListeners.set(listenerId, poller);
+    if (persistent) {
+      this.persist(() => this.store?.save({
+        listenerId,
+        linkUrl,
+        clientId: poller.getStatus().clientId,
+        lastSeen: resume?.lastSeen,
+        cursor: resume?.cursor,
+        ...(Object.keys(options).length > 0 && { options }),
+        savedAt: Date.now()
+      }));
+    }
+
+    if (this.coordinator) {
+      // Poll only while this tab is the elected leader for the link
+      this.coordinatedLinks.set(listenerId, this.coordinator.join(linkInfo.token, listenerId, {
+        onElected: () => {
+          poller.start().catch((error) => onError(toError(error), linkInfo));
+        },
+        onDemoted: () => poller.stop(),
+        onPayload: async (relayed) => {
+          // Record the payload with the poller so this tab neither delivers
+          // it again nor polls for it once it becomes the leader
+          if (!poller.recordDelivered(relayed)) {
+            return;
+          }
+          try {
+            // Each tab checks relayed payloads with its own schema
+            const payload = callbacks.schema ? await parsePayloadData(relayed, callbacks.schema) : relayed;
+            await callbacks.onPayload?.(payload, linkInfo);
+            poller.emit('payload', payload, linkInfo);
+          } catch (error) {
+            onError(toError(error), linkInfo);
+            poller.emit('error', toError(error), linkInfo);
+          }
+        },
+        onStatusChange: (status) => {
+          if (status !== 'active') {
+            this.leaveCoordination(listenerId);
+          }
+          onStatusChange(status, linkInfo);
+          poller.emit('statusChange', status, linkInfo);
+        }
+      }));
+
+      debugLog(this.debug, 'Joined cross-tab coordination for link', {
+        listenerId,
+        token: linkInfo.token.substring(0, 8) + '...'
+      });
+
+      return listenerId;
+    }
 
     try {
       // Start polling
       await poller.start();
       
-      debugLog(this.debug, 'Started listening to link', {
+      debugLog(this.debug, resume ? 'Resumed listening to link' : 'Started listening to link', {
         listenerId,
         token: linkInfo.token.substring(0, 8) + '...',
         type: linkInfo.type
@@ -120,6 +535,7 @@ export class SecretLinksSDK {
     } catch (error) {
       // Clean up on error
       this.activeListeners.delete(listenerId);
+      this.persist(() => this.store?.remove(listenerId));
       throw error;
     }
   }
@@ -136,8 +552,10 @@ export class SecretLinksSDK {
       return;
     }
 
+    this.leaveCoordination(listenerId);
     poller.stop();
     this.activeListeners.delete(listenerId);
+    this.persist(() => this.store?.remove(listenerId));
 
     debugLog(this.debug, 'Stopped listening', { listenerId });
   }
@@ -148,13 +566,119 @@ export class SecretLinksSDK {
   stopAll(): void {
     const activeCount = this.activeListeners.size;
     
-    for (const [_listenerId, poller] of this.activeListeners) {
+    this.stopPollers(true);
+
+    debugLog(this.debug, `Stopped all listeners`, { count: activeCount });
+  }
+
+  /**
+   * Shut the SDK down: stop all listeners, cancel their requests and remove
+   * all event handlers. The SDK cannot start listeners afterwards. Unlike
+   * stopAll, saved listeners are kept, so a new SDK can restore() them.
+   * @returns Promise that resolves once running callbacks and storage writes
+   * have finished
+   */
+  async dispose(): Promise<void> {
+    const pollers = [...this.activeListeners.values()];
+
+    this.disposed = true;
+    this.stopPollers(false);
+    this.removeAllListeners();
+    for (const poller of pollers) {
+      poller.removeAllListeners();
+    }
+
+    await Promise.all(pollers.map((poller) => poller.settle()));
+    await Promise.allSettled([...this.pendingWrites]);
+
+    debugLog(this.debug, 'SDK disposed', { listeners: pollers.length });
+  }
+
+  /**
+   * Stop every listener
+   * @param forget Also remove the listeners from the storage adapter
+   */
+  private stopPollers(forget: boolean): void {
+    for (const [listenerId, poller] of this.activeListeners) {
+      this.leaveCoordination(listenerId);
       poller.stop();
+      if (forget) {
+        this.persist(() => this.store?.remove(listenerId));
+      }
     }
-    
+
     this.activeListeners.clear();
+  }
 
-    debugLog(this.debug, `Stopped all listeners`, { count: activeCount });
+  /**
+   * Stop polling a link for now. Unlike stopListening, the listener keeps
+   * its client ID, cursor and interval state, so resumeListening picks up
+   * where it left off.
+   * @param listenerId The listener ID returned from startListening
+   */
+  pauseListening(listenerId: string): void {
+    const poller = this.activeListeners.get(listenerId);
+
+    if (!poller) {
+      debugLog(this.debug, 'Listener not found', { listenerId });
+      return;
+    }
+
+    poller.pause();
+  }
+
+  /**
+   * Continue a listener paused with pauseListening, polling right away
+   * @param listenerId The listener ID returned from startListening
+   */
+  resumeListening(listenerId: string): void {
+    const poller = this.activeListeners.get(listenerId);
+
+    if (!poller) {
+      debugLog(this.debug, 'Listener not found', { listenerId });
+      return;
+    }
+
+    poller.resume();
+  }
+
+  /**
+   * Pause all active listeners
+   */
+  pauseAll(): void {
+    for (const poller of this.activeListeners.values()) {
+      poller.pause();
+    }
+
+    debugLog(this.debug, 'Paused all listeners', { count: this.activeListeners.size });
+  }
+
+  /**
+   * Resume all paused listeners
+   */
+  resumeAll(): void {
+    for (const poller of this.activeListeners.values()) {
+      poller.resume();
+    }
+
+    debugLog(this.debug, 'Resumed all listeners', { count: this.activeListeners.size });
+  }
+
+  /**
+   * Check a link right away instead of waiting for the next poll, e.g. for a
+   * "refresh" button. Works while paused, and joins a poll already in flight.
+   * @param listenerId The listener ID returned from startListening
+   * @returns Promise that resolves once the poll's payloads have been delivered
+   */
+  async pollNow(listenerId: string): Promise<void> {
+    const poller = this.activeListeners.get(listenerId);
+
+    if (!poller) {
+      debugLog(this.debug, 'Listener not found', { listenerId });
+      return;
+    }
+
+    await poller.pollNow();
   }
 
   /**
@@ -164,7 +688,7 @@ export class SecretLinksSDK {
    */
   getListenerStatus(listenerId: string) {
     const poller = this.activeListeners.get(listenerId);
-    return poller ? poller.getStatus() : null;
+    return poller ? this.listenerStatus(listenerId, poller) : null;
   }
 
   /**
@@ -177,13 +701,23 @@ export class SecretLinksSDK {
     for (const [listenerId, poller] of this.activeListeners) {
       statuses.push({
         listenerId,
-        ...poller.getStatus()
+        ...this.listenerStatus(listenerId, poller)
       });
     }
 
     return statuses;
   }
 
+  /**
+   * Subscribe to the events of a single listener. Handlers are dropped when
+   * the listener stops.
+   * @param listenerId The listener ID returned from startListening
+   * @returns The listener's on/once/off methods, or null if not found
+   */
+  listener(listenerId: string): ListenerEmitter | null {
+    return this.activeListeners.get(listenerId) || null;
+  }
+
   /**
    * Get the number of active listeners
    * @returns Number of active listeners
@@ -192,6 +726,14 @@ export class SecretLinksSDK {
     return this.activeListeners.size;
   }
 
+  /**
+   * Get the state of the circuit breaker guarding the polling endpoint
+   * @returns The circuit state, or null if the circuitBreaker option is off
+   */
+  getCircuitState(): CircuitState | null {
+    return this.circuit ? this.circuit.getState() : null;
+  }
+
   /**
    * Check if SDK is listening to any links
    * @returns true if there are active listeners
@@ -200,31 +742,160 @@ export class SecretLinksSDK {
     return this.activeListeners.size > 0;
   }
 
-  private applyValidationRules(linkInfo: LinkInfo): string | null {
-    if (!this.validation) {
-      return null;
+  private listenerStatus(listenerId: string, poller: LinkPoller) {
+    const link = this.coordinatedLinks.get(listenerId);
+    return {
+      ...poller.getStatus(),
+      ...(link && { role: link.getRole() })
+    };
+  }
+
+  /**
+   * Re-emit a listener's events on the SDK, tagged with its ID
+   */
+  private forwardEvents(listenerId: string, poller: LinkPoller): void {
+    poller.on('payload', (payload, info) => this.emit('payload', payload, info, listenerId));
+    poller.on('error', (error, info) => this.emit('error', error, info, listenerId));
+    poller.on('statusChange', (status, info) => this.emit('statusChange', status, info, listenerId));
+    poller.on('pollStart', (info) => this.emit('pollStart', info, listenerId));
+    poller.on('pollEnd', (end, info) => this.emit('pollEnd', end, info, listenerId));
+    poller.on('intervalChange', (interval, previous, info) =>
+      this.emit('intervalChange', interval, previous, info, listenerId)
+    );
+  }
+
+  /**
+   * Leave the cross-tab election for a listener, if it takes part in one
+   */
+  private leaveCoordination(listenerId: string): void {
+    this.coordinatedLinks.get(listenerId)?.leave();
+    this.coordinatedLinks.delete(listenerId);
+  }
+
+  /**
+   * Parse a link and apply the built-in rules and synchronous validators,
+   * keeping the failure reasons
+   */
+  private checkLink(url: string): { linkInfo: LinkInfo; error: ValidationError | null } {
+    const linkInfo = parseLink(url);
+
+    if (!linkInfo.isValid) {
+      const issues = linkInfo.errors || [];
+      debugLog(this.debug, 'Link validation failed', { url, errors: issues });
+      const message = issues.length > 0
+        ? `Invalid Secret Link URL: ${issues[0].message}`
+        : 'Invalid Secret Link URL';
+      return {
+        linkInfo,
+        error: new ValidationError(message, issues[0]?.code || 'INVALID_URL', { issues })
+      };
     }
 
-    // Check allowed domains
-    if (this.validation.allowedDomains && this.validation.allowedDomains.length > 0) {
-      if (!this.validation.allowedDomains.includes(linkInfo.domain)) {
-        return `Domain ${linkInfo.domain} is not allowed. Allowed domains: ${this.validation.allowedDomains.join(', ')}`;
+    const context = this.createValidationContext(url);
+    const issues = this.validation ? applyBuiltInRules(linkInfo, this.validation, context) : [];
+
+    for (const [name, validator] of this.validators) {
+      if (!validator.async) {
+        issues.push(...normalizeValidatorResult((validator.validate as LinkValidator)(linkInfo, context), name));
       }
     }
 
-    // Check allowed link types
-    if (this.validation.allowedLinkTypes && this.validation.allowedLinkTypes.length > 0) {
-      if (!this.validation.allowedLinkTypes.includes(linkInfo.type as 'ping' | 'webhook')) {
-        return `Link type ${linkInfo.type} is not allowed. Allowed types: ${this.validation.allowedLinkTypes.join(', ')}`;
-      }
+    return this.validationResult(url, linkInfo, issues);
+  }
+
+  /**
+   * Like checkLink, then run asynchronous validators if the link passed so far
+   */
+  private async checkLinkAsync(url: string): Promise<{ linkInfo: LinkInfo; error: ValidationError | null }> {
+    const result = this.checkLink(url);
+    const asyncValidators = [...this.validators].filter(([, validator]) => validator.async);
+
+    if (result.error || asyncValidators.length === 0) {
+      return result;
     }
 
-    // Check password requirement
-    if (this.validation.requirePassword && !linkInfo.hasPassword) {
-      return 'Password-protected links are required';
+    const context = this.createValidationContext(url);
+    const results = await Promise.all(
+      asyncValidators.map(async ([name, validator]) =>
+        normalizeValidatorResult(await validator.validate(result.linkInfo, context), name)
+      )
+    );
+
+    return this.validationResult(url, result.linkInfo, results.flat());
+  }
+
+  private validationResult(
+    url: string,
+    linkInfo: LinkInfo,
+    issues: LinkValidationIssue[]
+  ): { linkInfo: LinkInfo; error: ValidationError | null } {
+    if (issues.length > 0) {
+      debugLog(this.debug, 'Custom validation failed', { url, errors: issues });
+      return {
+        linkInfo: {
+          ...linkInfo,
+          isValid: false,
+          errors: issues
+        },
+        error: new ValidationError(
+          issues.map((issue) => issue.message).join('; '),
+          issues[0].code,
+          { issues }
+        )
+      };
     }
 
-    return null;
+    debugLog(this.debug, 'Link validated successfully', {
+      token: linkInfo.token.substring(0, 8) + '...',
+      type: linkInfo.type,
+      domain: linkInfo.domain,
+      hasPassword: linkInfo.hasPassword
+    });
+
+    return { linkInfo, error: null };
+  }
+
+  private createValidationContext(url: string): ValidationContext {
+    return {
+      url,
+      activeLinks: [...this.activeListeners.values()].map((poller) => poller.getLinkInfo())
+    };
+  }
+
+  /**
+   * Run a storage write in the background, reporting failures to onError
+   */
+  private persist(operation: () => Promise<void> | undefined): void {
+    if (!this.store) {
+      return;
+    }
+
+    const write = operation()?.catch((error) => {
+      debugLog(this.debug, 'Failed to persist listener state', { error: toError(error).message });
+      this.reportError(toError(error));
+    });
+    if (write) {
+      // dispose() waits for pending writes
+      this.pendingWrites.add(write);
+      write.finally(() => this.pendingWrites.delete(write));
+    }
+  }
+
+  /**
+   * Deliver an error that belongs to no listener to onError and the error event
+   */
+  private reportError(error: Error): void {
+    this.onError(error);
+    this.emit('error', error);
+  }
+
+  // A throwing SDK event handler is reported like a storage failure
+  protected handleListenerError(error: unknown, event: keyof SDKEvents): void {
+    if (event === 'error') {
+      super.handleListenerError(error, event);
+    } else {
+      this.reportError(toError(error));
+    }
   }
 
   private defaultErrorHandler(error: Error): void {
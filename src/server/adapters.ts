@@ -0,0 +1,117 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createPollHandler, PollHandler, PollHandlerOptions, PollHandlerResult } from './handler';
+
+// Minimal structural types so the adapters do not depend on the frameworks
+
+interface ExpressRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+interface ExpressResponse {
+  status(code: number): ExpressResponse;
+  set(headers: Record<string, string>): ExpressResponse;
+  json(body: unknown): unknown;
+}
+
+interface FastifyRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+interface FastifyReply {
+  code(statusCode: number): FastifyReply;
+  headers(values: Record<string, string>): FastifyReply;
+  send(payload: unknown): unknown;
+}
+
+function internalError(): PollHandlerResult {
+  return {
+    status: 500,
+    headers: { 'Content-Type': 'application/json' },
+    body: { error: 'Internal server error' }
+  };
+}
+
+async function run(handler: PollHandler, request: Parameters<PollHandler>[0]): Promise<PollHandlerResult> {
+  try {
+    return await handler(request);
+  } catch {
+    return internalError();
+  }
+}
+
+/**
+ * Express route handler. Requires `express.json()` body parsing.
+ * @example app.post('/api/secret-links/poll', express.json(), expressPollHandler({ apiKeys: [key] }))
+ */
+export function expressPollHandler(options: PollHandlerOptions = {}) {
+  const handler = createPollHandler(options);
+
+  return async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const result = await run(handler, { method: req.method, headers: req.headers, body: req.body });
+    res.status(result.status).set(result.headers).json(result.body);
+  };
+}
+
+/**
+ * Fastify route handler
+ * @example fastify.post('/api/secret-links/poll', fastifyPollHandler({ apiKeys: [key] }))
+ */
+export function fastifyPollHandler(options: PollHandlerOptions = {}) {
+  const handler = createPollHandler(options);
+
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const result = await run(handler, { method: request.method, headers: request.headers, body: request.body });
+    await reply.code(result.status).headers(result.headers).send(result.body);
+  };
+}
+
+/**
+ * Request listener for Node's built-in `http` module
+ * @example http.createServer(nodePollHandler({ apiKeys: [key] })).listen(3001)
+ */
+export function nodePollHandler(options: PollHandlerOptions & { maxBodySize?: number } = {}) {
+  const handler = createPollHandler(options);
+  const maxBodySize = options.maxBodySize ?? 1024 * 1024;
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    let result: PollHandlerResult;
+
+    try {
+      const body = await readJsonBody(req, maxBodySize);
+      result = await run(handler, { method: req.method, headers: req.headers, body });
+    } catch (error) {
+      result = {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+        body: { error: error instanceof Error ? error.message : 'Invalid request body' }
+      };
+    }
+
+    res.writeHead(result.status, result.headers);
+    res.end(JSON.stringify(result.body));
+  };
+}
+
+async function readJsonBody(req: IncomingMessage, maxBodySize: number): Promise<unknown> {
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > maxBodySize) {
+      throw new Error('Request body too large');
+    }
+  }
+
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error('Request body must be valid JSON');
+  }
+}
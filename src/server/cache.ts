@@ -0,0 +1,72 @@
+import { PollResponse } from '../types';
+
+interface CacheEntry {
+  expiresAt: number;
+  response: Promise<PollResponse>;
+}
+
+/**
+ * Short-lived cache of upstream poll responses. Concurrent requests for the
+ * same key share one in-flight upstream call.
+ */
+export class ResponseCache {
+  private ttl: number;
+  private maxEntries: number;
+  private entries: Map<string, CacheEntry>;
+
+  constructor(ttl: number, maxEntries = 1000) {
+    this.ttl = ttl;
+    this.maxEntries = maxEntries;
+    this.entries = new Map();
+  }
+
+  /**
+   * Return the cached response for a key, or load and cache it
+   */
+  get(key: string, load: () => Promise<PollResponse>): Promise<PollResponse> {
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.response;
+    }
+
+    const response = load();
+    this.entries.set(key, { expiresAt: now + this.ttl, response });
+    this.evict(now);
+
+    // Failed upstream calls, whether they reject or resolve to an error
+    // response, must not be served from the cache
+    const forget = () => {
+      if (this.entries.get(key)?.response === response) {
+        this.entries.delete(key);
+      }
+    };
+    response.then((result) => {
+      if (result.error) {
+        forget();
+      }
+    }, forget);
+
+    return response;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private evict(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    // Maps iterate in insertion order, so the first keys are the oldest
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
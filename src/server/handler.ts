@@ -0,0 +1,249 @@
+import { BatchPollResponse, LinkStatus, PayloadData, PollRequest, PollResponse } from '../types';
+import { ResponseCache } from './cache';
+
+const DEFAULT_UPSTREAM = 'https://secret.annai.ai/api/links';
+const LINK_STATUSES: LinkStatus[] = ['active', 'expired', 'exhausted', 'deleted'];
+
+export interface PollHandlerOptions {
+  /**
+   * Upstream poll URL. A string is treated as a base URL and the token is
+   * appended as `<base>/<token>/poll`. Default: https://secret.annai.ai/api/links
+   */
+  upstream?: string | ((request: PollRequest) => string);
+  /**
+   * Accepted bearer tokens for incoming requests, or a function deciding.
+   * When omitted, requests are not authenticated.
+   */
+  apiKeys?: string[] | ((apiKey: string) => boolean | Promise<boolean>);
+  /** Extra headers sent upstream (e.g. your Secret Links credentials) */
+  upstreamHeaders?: Record<string, string>;
+  /** How long an upstream response is reused for the same link, in ms (default: 1000, 0 disables) */
+  cacheTtl?: number;
+  /** Suggested nextPollIn when upstream does not provide one */
+  defaultNextPollIn?: { ping: number; webhook: number };
+  /** Maximum requests accepted in one batch (default: 100) */
+  maxBatchSize?: number;
+  /** Fetch implementation used for upstream calls (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+export interface PollHandlerRequest {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+}
+
+export interface PollHandlerResult {
+  status: number;
+  headers: Record<string, string>;
+  body: PollResponse | BatchPollResponse | { error: string };
+}
+
+export type PollHandler = (request: PollHandlerRequest) => Promise<PollHandlerResult>;
+
+/**
+ * Create a framework-agnostic handler for the SDK's polling endpoint. It
+ * authenticates the caller, validates PollRequest (or BatchPollRequest)
+ * bodies, forwards them upstream and normalizes the result into PollResponse.
+ */
+export function createPollHandler(options: PollHandlerOptions = {}): PollHandler {
+  const cache = new ResponseCache(options.cacheTtl ?? 1000);
+  const maxBatchSize = options.maxBatchSize ?? 100;
+
+  return async (request) => {
+    if (request.method && request.method.toUpperCase() !== 'POST') {
+      return jsonResult(405, { error: 'Method not allowed' }, { 'Allow': 'POST' });
+    }
+
+    if (!(await isAuthorized(request.headers, options.apiKeys))) {
+      return jsonResult(401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    const body = request.body as Record<string, unknown> | null;
+
+    if (body && typeof body === 'object' && Array.isArray(body.requests)) {
+      if (body.requests.length > maxBatchSize) {
+        return jsonResult(400, { error: `Batch exceeds ${maxBatchSize} requests` });
+      }
+      for (const item of body.requests) {
+        const problem = validatePollRequest(item);
+        if (problem) {
+          return jsonResult(400, { error: problem });
+        }
+      }
+      const responses = await Promise.all(
+        (body.requests as PollRequest[]).map((item) => pollUpstream(item, options, cache))
+      );
+      return jsonResult(200, { responses });
+    }
+
+    const problem = validatePollRequest(body);
+    if (problem) {
+      return jsonResult(400, { error: problem });
+    }
+
+    const response = await pollUpstream(body as unknown as PollRequest, options, cache);
+    return jsonResult(response.error && response.linkStatus === 'active' ? 502 : 200, response);
+  };
+}
+
+/**
+ * Check that a value is a well-formed PollRequest
+ * @returns A description of the first problem, or null if valid
+ */
+export function validatePollRequest(value: unknown): string | null {
+  if (!value || typeof value !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+
+  const request = value as Record<string, unknown>;
+
+  if (typeof request.token !== 'string' || !/^[a-zA-Z0-9_-]{16,64}$/.test(request.token)) {
+    return 'token must be 16-64 letters, digits, "_" or "-"';
+  }
+  if (request.type !== 'ping' && request.type !== 'webhook') {
+    return "type must be 'ping' or 'webhook'";
+  }
+  if (request.password !== undefined && typeof request.password !== 'string') {
+    return 'password must be a string';
+  }
+  if (request.clientId !== undefined && typeof request.clientId !== 'string') {
+    return 'clientId must be a string';
+  }
+  if (request.lastSeen !== undefined && typeof request.lastSeen !== 'number') {
+    return 'lastSeen must be a number';
+  }
+  if (request.cursor !== undefined && typeof request.cursor !== 'string') {
+    return 'cursor must be a string';
+  }
+  if (request.ack !== undefined &&
+    !(Array.isArray(request.ack) && request.ack.every((id) => typeof id === 'string'))) {
+    return 'ack must be an array of strings';
+  }
+
+  return null;
+}
+
+/**
+ * Convert an upstream response body into a PollResponse
+ */
+export function normalizeUpstreamResponse(
+  data: unknown,
+  type: 'ping' | 'webhook',
+  defaultNextPollIn = { ping: 10000, webhook: 60000 }
+): PollResponse {
+  const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const payloads = Array.isArray(raw.payloads) ? (raw.payloads as PayloadData[]) : undefined;
+  const payload = raw.payload && typeof raw.payload === 'object' ? (raw.payload as PayloadData) : undefined;
+
+  const response: PollResponse = {
+    hasNewContent: typeof raw.hasNewContent === 'boolean'
+      ? raw.hasNewContent
+      : !!payload || !!(payloads && payloads.length > 0),
+    linkStatus: LINK_STATUSES.includes(raw.linkStatus as LinkStatus) ? (raw.linkStatus as LinkStatus) : 'active',
+    nextPollIn: typeof raw.nextPollIn === 'number' && raw.nextPollIn > 0 ? raw.nextPollIn : defaultNextPollIn[type]
+  };
+
+  if (payload) response.payload = payload;
+  if (payloads) response.payloads = payloads;
+  if (raw.hasMore === true) response.hasMore = true;
+  if (typeof raw.cursor === 'string') response.cursor = raw.cursor;
+  if (typeof raw.error === 'string') response.error = raw.error;
+
+  return response;
+}
+
+async function pollUpstream(
+  request: PollRequest,
+  options: PollHandlerOptions,
+  cache: ResponseCache
+): Promise<PollResponse> {
+  const load = () => fetchUpstream(request, options);
+
+  // Acknowledgements must reach upstream, so those requests skip the cache
+  if (request.ack && request.ack.length > 0) {
+    return load();
+  }
+
+  const key = `${request.token}\n${request.password ?? ''}\n${request.cursor ?? ''}`;
+  return cache.get(key, load);
+}
+
+async function fetchUpstream(request: PollRequest, options: PollHandlerOptions): Promise<PollResponse> {
+  const fetchImpl = options.fetch || fetch;
+  const url = typeof options.upstream === 'function'
+    ? options.upstream(request)
+    : `${(options.upstream || DEFAULT_UPSTREAM).replace(/\/$/, '')}/${encodeURIComponent(request.token)}/poll`;
+
+  let response: Response;
+  try {
+    response = await fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SecretLinksSDK-Server/1.0.0',
+        ...options.upstreamHeaders
+      },
+      body: JSON.stringify({
+        password: request.password,
+        clientId: request.clientId,
+        timestamp: Date.now(),
+        lastSeen: request.lastSeen,
+        cursor: request.cursor,
+        ack: request.ack
+      })
+    });
+  } catch {
+    return upstreamError('Secret Links service unavailable');
+  }
+
+  if (response.status === 404) {
+    return { hasNewContent: false, linkStatus: 'deleted' };
+  }
+  if (response.status === 410) {
+    return { hasNewContent: false, linkStatus: 'expired' };
+  }
+  if (!response.ok) {
+    return upstreamError(`Secret Links API responded with HTTP ${response.status}`);
+  }
+
+  try {
+    return normalizeUpstreamResponse(await response.json(), request.type, options.defaultNextPollIn);
+  } catch {
+    return upstreamError('Secret Links API returned invalid JSON');
+  }
+}
+
+function upstreamError(error: string): PollResponse {
+  return { hasNewContent: false, linkStatus: 'active', error };
+}
+
+async function isAuthorized(
+  headers: PollHandlerRequest['headers'],
+  apiKeys: PollHandlerOptions['apiKeys']
+): Promise<boolean> {
+  if (!apiKeys) {
+    return true;
+  }
+
+  const header = headers['authorization'] ?? headers['Authorization'];
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  return typeof apiKeys === 'function' ? !!(await apiKeys(match[1])) : apiKeys.includes(match[1]);
+}
+
+function jsonResult(
+  status: number,
+  body: PollHandlerResult['body'],
+  headers: Record<string, string> = {}
+): PollHandlerResult {
+  return {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+    body
+  };
+}
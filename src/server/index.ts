@@ -0,0 +1,15 @@
+// Server-side helpers for implementing the SDK's polling endpoint
+export {
+  createPollHandler,
+  validatePollRequest,
+  normalizeUpstreamResponse
+} from './handler';
+export { expressPollHandler, fastifyPollHandler, nodePollHandler } from './adapters';
+export { ResponseCache } from './cache';
+
+export type {
+  PollHandler,
+  PollHandlerOptions,
+  PollHandlerRequest,
+  PollHandlerResult
+} from './handler';
@@ -0,0 +1,209 @@
+import { ListenerCursor, PersistedListener, StorageAdapter } from './types';
+
+/**
+ * Keeps state in memory. Useful for tests and for sharing state between SDK
+ * instances in one process.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private data = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.data.has(key) ? (this.data.get(key) as string) : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+}
+
+/**
+ * Wraps a Web Storage object (localStorage or sessionStorage)
+ */
+export class WebStorageAdapter implements StorageAdapter {
+  private storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+export function createLocalStorageAdapter(): StorageAdapter {
+  return new WebStorageAdapter(window.localStorage);
+}
+
+export function createSessionStorageAdapter(): StorageAdapter {
+  return new WebStorageAdapter(window.sessionStorage);
+}
+
+/**
+ * Stores state in an IndexedDB object store
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null;
+
+  constructor(dbName = 'secret-links-sdk', storeName = 'state') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+    this.dbPromise = null;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.run<string | undefined>('readonly', (store) => store.get(key));
+    return result ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.run('readwrite', (store) => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Stores state as a JSON file. Node.js only.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const data = await this.read();
+    return key in data ? data[key] : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const data = await this.read();
+    data[key] = value;
+    await this.write(data);
+  }
+
+  async remove(key: string): Promise<void> {
+    const data = await this.read();
+    delete data[key];
+    await this.write(data);
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    const fs = await import('fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async write(data: Record<string, string>): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.writeFile(this.filePath, JSON.stringify(data), 'utf8');
+  }
+}
+
+/**
+ * Persists the SDK's listeners under a single storage key. Writes are
+ * serialized so concurrent updates never overwrite each other.
+ */
+export class ListenerStore {
+  private adapter: StorageAdapter;
+  private key: string;
+  private queue: Promise<unknown>;
+
+  constructor(adapter: StorageAdapter, key: string) {
+    this.adapter = adapter;
+    this.key = key;
+    this.queue = Promise.resolve();
+  }
+
+  async load(): Promise<PersistedListener[]> {
+    await this.queue.catch(() => undefined);
+    const raw = await this.adapter.get(this.key);
+    if (!raw) {
+      return [];
+    }
+    const listeners = JSON.parse(raw);
+    return Array.isArray(listeners) ? listeners : [];
+  }
+
+  save(listener: PersistedListener): Promise<void> {
+    return this.update((listeners) => [
+      ...listeners.filter((existing) => existing.listenerId !== listener.listenerId),
+      listener
+    ]);
+  }
+
+  updateCursor(listenerId: string, cursor: ListenerCursor): Promise<void> {
+    return this.update((listeners) =>
+      listeners.map((listener) =>
+        listener.listenerId === listenerId ? { ...listener, ...cursor, savedAt: Date.now() } : listener
+      )
+    );
+  }
+
+  remove(listenerId: string): Promise<void> {
+    return this.update((listeners) => listeners.filter((listener) => listener.listenerId !== listenerId));
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(() => this.adapter.remove(this.key));
+  }
+
+  private update(change: (listeners: PersistedListener[]) => PersistedListener[]): Promise<void> {
+    return this.enqueue(async () => {
+      const raw = await this.adapter.get(this.key);
+      const listeners: PersistedListener[] = raw ? JSON.parse(raw) : [];
+      await this.adapter.set(this.key, JSON.stringify(change(listeners)));
+    });
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const next = this.queue.catch(() => undefined).then(operation);
+    this.queue = next;
+    return next;
+  }
+}
@@ -0,0 +1,281 @@
+import { CoordinationOptions, LinkStatus, PayloadData } from './types';
+import { DeliveryTracker } from './delivery';
+import { debugLog } from './utils';
+
+export type CoordinationRole = 'electing' | 'leader' | 'follower';
+
+type CoordinationMessage =
+  | { type: 'query' | 'heartbeat' | 'resign'; token: string; from: string }
+  | { type: 'payload'; token: string; from: string; payload: PayloadData }
+  | { type: 'status'; token: string; from: string; status: LinkStatus };
+
+export interface CoordinatedLinkHandlers {
+  /** This tab now polls the link */
+  onElected: () => void;
+  /** Another tab took over polling the link */
+  onDemoted: () => void;
+  /** Another tab received a payload */
+  onPayload: (payload: PayloadData) => void;
+  /** The leader tab saw the link status change */
+  onStatusChange: (status: LinkStatus) => void;
+}
+
+export interface CoordinatedLink {
+  getRole(): CoordinationRole;
+  /** Forward a payload delivered in this (leader) tab to the other tabs */
+  publishPayload(payload: PayloadData): void;
+  /** Forward a link status change seen in this (leader) tab to the other tabs */
+  publishStatus(status: LinkStatus): void;
+  leave(): void;
+}
+
+interface Participant {
+  id: string;
+  token: string;
+  role: CoordinationRole;
+  leaderId?: string;
+  timer: ReturnType<typeof setTimeout> | null;
+  heartbeat: ReturnType<typeof setInterval> | null;
+  received: DeliveryTracker;
+  handlers: CoordinatedLinkHandlers;
+}
+
+interface Channel {
+  post(message: CoordinationMessage): void;
+  close(): void;
+}
+
+/**
+ * Elects one leader per link token among all tabs of an origin. The leader
+ * polls and broadcasts payloads and status changes; the others only relay
+ * them to their callbacks. The lowest participant ID wins conflicts, and
+ * followers take over when the leader resigns or stops sending heartbeats.
+ */
+export class TabCoordinator {
+  private channelName: string;
+  private heartbeatInterval: number;
+  private leaderTimeout: number;
+  private electionDelay: number;
+  private debug: boolean;
+  private tabId: string;
+  private participants: Map<string, Participant>;
+  private channel: Channel | null;
+
+  constructor(options: CoordinationOptions = {}, debug = false) {
+    this.channelName = options.channelName || 'secret-links-sdk';
+    this.heartbeatInterval = options.heartbeatInterval ?? 2000;
+    this.leaderTimeout = options.leaderTimeout ?? 5000;
+    this.electionDelay = options.electionDelay ?? 300;
+    this.debug = debug;
+    // Time-ordered IDs let the oldest tab win elections
+    this.tabId = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+    this.participants = new Map();
+    this.channel = null;
+  }
+
+  /**
+   * Take part in the election for a link
+   * @param key Unique key of the local listener
+   */
+  join(token: string, key: string, handlers: CoordinatedLinkHandlers): CoordinatedLink {
+    if (this.participants.size === 0) {
+      this.open();
+    }
+
+    const participant: Participant = {
+      id: `${this.tabId}:${key}`,
+      token,
+      role: 'electing',
+      timer: null,
+      heartbeat: null,
+      received: new DeliveryTracker(),
+      handlers
+    };
+    this.participants.set(participant.id, participant);
+
+    if (this.channel) {
+      // Ask for a current leader; claim the link if nobody answers
+      this.send({ type: 'query', token, from: participant.id });
+      participant.timer = setTimeout(() => this.becomeLeader(participant), this.electionDelay);
+    } else {
+      this.becomeLeader(participant);
+    }
+
+    return {
+      getRole: () => participant.role,
+      publishPayload: (payload) => this.send({ type: 'payload', token, from: participant.id, payload }),
+      publishStatus: (status) => this.send({ type: 'status', token, from: participant.id, status }),
+      leave: () => this.leave(participant)
+    };
+  }
+
+  private leave(participant: Participant): void {
+    if (!this.participants.delete(participant.id)) {
+      return;
+    }
+    if (participant.role === 'leader') {
+      this.send({ type: 'resign', token: participant.token, from: participant.id });
+    }
+    this.clearTimers(participant);
+
+    if (this.participants.size === 0) {
+      this.close();
+    }
+  }
+
+  private becomeLeader(participant: Participant): void {
+    this.clearTimers(participant);
+    participant.role = 'leader';
+    participant.leaderId = participant.id;
+    participant.heartbeat = setInterval(
+      () => this.send({ type: 'heartbeat', token: participant.token, from: participant.id }),
+      this.heartbeatInterval
+    );
+    this.send({ type: 'heartbeat', token: participant.token, from: participant.id });
+    debugLog(this.debug, 'Elected to poll link', { token: participant.token.substring(0, 8) + '...' });
+    participant.handlers.onElected();
+  }
+
+  private follow(participant: Participant, leaderId: string): void {
+    const wasLeader = participant.role === 'leader';
+    this.clearTimers(participant);
+    participant.role = 'follower';
+    participant.leaderId = leaderId;
+    participant.timer = setTimeout(() => this.becomeLeader(participant), this.leaderTimeout);
+
+    if (wasLeader) {
+      debugLog(this.debug, 'Another tab took over polling', { token: participant.token.substring(0, 8) + '...' });
+      participant.handlers.onDemoted();
+    }
+  }
+
+  private handleMessage(message: CoordinationMessage): void {
+    for (const participant of this.participants.values()) {
+      if (participant.token !== message.token || participant.id === message.from) {
+        continue;
+      }
+
+      switch (message.type) {
+        case 'query':
+          if (participant.role === 'leader') {
+            this.send({ type: 'heartbeat', token: participant.token, from: participant.id });
+          }
+          break;
+        case 'heartbeat':
+          if (participant.role !== 'leader' || message.from < participant.id) {
+            this.follow(participant, message.from);
+          } else {
+            // Two leaders: assert ours so the other one steps down
+            this.send({ type: 'heartbeat', token: participant.token, from: participant.id });
+          }
+          break;
+        case 'resign':
+          if (participant.role === 'electing' || participant.leaderId === message.from) {
+            this.becomeLeader(participant);
+          }
+          break;
+        case 'payload':
+          // Leaders take relayed payloads too: while two tabs both think they
+          // lead, each one must learn what the other delivered
+          if (!participant.received.isDuplicate(message.payload)) {
+            participant.received.markDelivered(message.payload);
+            participant.received.takeAcks();
+            participant.handlers.onPayload(message.payload);
+          }
+          break;
+        case 'status':
+          if (participant.role !== 'leader') {
+            participant.handlers.onStatusChange(message.status);
+          }
+          break;
+      }
+    }
+  }
+
+  private send(message: CoordinationMessage): void {
+    this.channel?.post(message);
+    // Listeners of this tab do not receive their own channel's messages
+    this.handleMessage(message);
+  }
+
+  private clearTimers(participant: Participant): void {
+    if (participant.timer) {
+      clearTimeout(participant.timer);
+      participant.timer = null;
+    }
+    if (participant.heartbeat) {
+      clearInterval(participant.heartbeat);
+      participant.heartbeat = null;
+    }
+  }
+
+  private open(): void {
+    this.channel = openChannel(this.channelName, (message) => this.handleMessage(message));
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  private close(): void {
+    this.channel?.close();
+    this.channel = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  // Hand leadership over right away instead of waiting for the leader timeout
+  private handlePageHide = (): void => {
+    for (const participant of this.participants.values()) {
+      if (participant.role === 'leader') {
+        this.channel?.post({ type: 'resign', token: participant.token, from: participant.id });
+      }
+    }
+  };
+}
+
+/**
+ * Open a BroadcastChannel, falling back to localStorage storage events
+ * @returns null outside a browser, where there are no other tabs
+ */
+function openChannel(name: string, onMessage: (message: CoordinationMessage) => void): Channel | null {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent) => onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    const key = `${name}:message`;
+    let sequence = 0;
+    const listener = (event: StorageEvent) => {
+      if (event.key === key && event.newValue) {
+        try {
+          onMessage(JSON.parse(event.newValue).message);
+        } catch {
+          // Not one of ours
+        }
+      }
+    };
+    window.addEventListener('storage', listener);
+    return {
+      post: (message) => {
+        try {
+          // Storage events only fire on changes, so make every write unique.
+          // The event carries the value, so remove it right away: payloads
+          // must not stay on disk, least of all decrypted ones.
+          localStorage.setItem(key, JSON.stringify({ message, nonce: `${Date.now()}-${sequence++}` }));
+          localStorage.removeItem(key);
+        } catch {
+          // Storage full or unavailable; other tabs fall back to their leader timeout
+        }
+      },
+      close: () => window.removeEventListener('storage', listener)
+    };
+  }
+
+  return null;
+}
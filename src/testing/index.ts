@@ -0,0 +1,4 @@
+// Test helpers for applications integrating the SDK
+export { MockSecretLinksServer } from './mock-server';
+
+export type { MockServerOptions, MockFailure, MockPayload } from './mock-server';
@@ -0,0 +1,279 @@
+import { LinkStatus, PayloadData, PollRequest, PollResponse } from '../types';
+import { validatePollRequest } from '../server/handler';
+
+export interface MockServerOptions {
+  /** Polling endpoint the mock answers (default: 'https://secret-links.mock/api/poll') */
+  endpoint?: string;
+  /** nextPollIn returned to the SDK (default: the SDK's intervals, 10s ping / 60s webhook) */
+  nextPollIn?: { ping: number; webhook: number };
+  /** Delay before every response, in ms (default: 0) */
+  latency?: number;
+  /** Required bearer API key; requests without it receive HTTP 401 */
+  apiKey?: string;
+  /** Payloads returned per poll before `hasMore` is set (default: unlimited) */
+  maxPayloadsPerPoll?: number;
+}
+
+/** A scripted failure for upcoming requests */
+export type MockFailure =
+  | 'network'
+  | { status: number; statusText?: string }
+  | { serverError: string };
+
+/** Payload to emit; `id`, `type` and `timestamp` are filled in when omitted */
+export type MockPayload = Partial<PayloadData> & { data: unknown };
+
+interface MockLink {
+  status: LinkStatus;
+  pending: PayloadData[];
+  polls: number;
+}
+
+interface PollWaiter {
+  token?: string;
+  resolve: (request: PollRequest) => void;
+}
+
+/**
+ * In-process fake of a Secret Links polling endpoint. Install it in place of
+ * the global fetch to test onPayload/onStatusChange handling without a
+ * backend. Latency uses setTimeout, so it works with fake timers.
+ *
+ * @example
+ * const server = new MockSecretLinksServer().install();
+ * const sdk = new SecretLinksSDK({ pollingEndpoint: server.endpoint });
+ * await sdk.startListening(url, { onPayload });
+ * server.emit(token, { data: { hello: 'world' } });
+ * await jest.advanceTimersByTimeAsync(10000);
+ */
+export class MockSecretLinksServer {
+  /** Every poll request received, in order (batched requests are flattened) */
+  readonly requests: PollRequest[] = [];
+  /** Endpoint to pass to the SDK as `pollingEndpoint` */
+  readonly endpoint: string;
+
+  private nextPollIn: { ping: number; webhook: number };
+  private latency: number;
+  private apiKey?: string;
+  private maxPayloadsPerPoll: number;
+  private links = new Map<string, MockLink>();
+  private failures: MockFailure[] = [];
+  private waiters: PollWaiter[] = [];
+  private nextId = 1;
+  private originalFetch?: typeof fetch;
+
+  constructor(options: MockServerOptions = {}) {
+    this.endpoint = options.endpoint || 'https://secret-links.mock/api/poll';
+    this.nextPollIn = options.nextPollIn || { ping: 10000, webhook: 60000 };
+    this.latency = options.latency || 0;
+    this.apiKey = options.apiKey;
+    this.maxPayloadsPerPoll = options.maxPayloadsPerPoll ?? Infinity;
+  }
+
+  /**
+   * Replace the global fetch with this mock
+   * @returns The server, for chaining
+   */
+  install(): this {
+    if (!this.originalFetch) {
+      this.originalFetch = globalThis.fetch;
+      globalThis.fetch = this.fetch;
+    }
+    return this;
+  }
+
+  /**
+   * Restore the global fetch replaced by install()
+   */
+  uninstall(): void {
+    if (this.originalFetch) {
+      globalThis.fetch = this.originalFetch;
+      this.originalFetch = undefined;
+    }
+  }
+
+  /**
+   * Queue payloads for a link; they are returned by its next poll
+   * @returns The queued payloads, with defaults filled in
+   */
+  emit(token: string, ...payloads: MockPayload[]): PayloadData[] {
+    const link = this.link(token);
+    const queued = payloads.map((payload) => ({
+      ...payload,
+      id: payload.id ?? `mock-${this.nextId++}`,
+      type: payload.type ?? 'ping',
+      timestamp: payload.timestamp ?? Date.now()
+    }));
+    link.pending.push(...queued);
+    return queued;
+  }
+
+  /**
+   * Change the status reported for a link from its next poll on
+   */
+  setStatus(token: string, status: LinkStatus): void {
+    this.link(token).status = status;
+  }
+
+  /**
+   * Fail the next `times` requests, in order after already scripted failures
+   */
+  failNext(failure: MockFailure, times = 1): void {
+    for (let i = 0; i < times; i++) {
+      this.failures.push(failure);
+    }
+  }
+
+  /**
+   * Set the delay applied before every response, in ms
+   */
+  setLatency(latency: number): void {
+    this.latency = latency;
+  }
+
+  /**
+   * Number of polls received for a link
+   */
+  pollCount(token: string): number {
+    return this.links.get(token)?.polls ?? 0;
+  }
+
+  /**
+   * Payloads emitted for a link that have not been delivered yet
+   */
+  pendingPayloads(token: string): PayloadData[] {
+    return [...(this.links.get(token)?.pending ?? [])];
+  }
+
+  /**
+   * Resolve with the next poll request received, optionally for one link only
+   */
+  waitForPoll(token?: string): Promise<PollRequest> {
+    return new Promise((resolve) => this.waiters.push({ token, resolve }));
+  }
+
+  /**
+   * Forget all links, scripted failures and recorded requests
+   */
+  reset(): void {
+    this.links.clear();
+    this.failures = [];
+    this.requests.length = 0;
+    this.latency = 0;
+  }
+
+  /**
+   * fetch-compatible handler. Use install() or pass it wherever a fetch is expected.
+   */
+  readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    if (this.latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+    }
+
+    if (url.split('?')[0] !== this.endpoint) {
+      return mockResponse(404, { error: 'Not found' }, 'Not Found');
+    }
+
+    if (this.apiKey && readHeader(init?.headers, 'Authorization') !== `Bearer ${this.apiKey}`) {
+      return mockResponse(401, { error: 'Unauthorized' }, 'Unauthorized');
+    }
+
+    const failure = this.failures.shift();
+    if (failure === 'network') {
+      throw new TypeError('Failed to fetch');
+    }
+    if (failure && 'status' in failure) {
+      return mockResponse(failure.status, { error: failure.statusText || 'Error' }, failure.statusText || 'Error');
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(String(init?.body ?? ''));
+    } catch {
+      return mockResponse(400, { error: 'Request body must be JSON' }, 'Bad Request');
+    }
+
+    const batch = body && typeof body === 'object' && Array.isArray((body as { requests?: unknown }).requests);
+    const requests: unknown[] = batch ? (body as { requests: unknown[] }).requests : [body];
+
+    for (const request of requests) {
+      const problem = validatePollRequest(request);
+      if (problem) {
+        return mockResponse(400, { error: problem }, 'Bad Request');
+      }
+    }
+
+    const responses = (requests as PollRequest[]).map((request) => this.poll(request, failure));
+    return mockResponse(200, batch ? { responses } : responses[0]);
+  };
+
+  private poll(request: PollRequest, failure?: MockFailure): PollResponse {
+    this.requests.push(request);
+    const link = this.link(request.token);
+    link.polls++;
+
+    this.waiters = this.waiters.filter((waiter) => {
+      if (waiter.token && waiter.token !== request.token) return true;
+      waiter.resolve(request);
+      return false;
+    });
+
+    if (failure && failure !== 'network' && 'serverError' in failure) {
+      return { hasNewContent: false, linkStatus: link.status, error: failure.serverError };
+    }
+
+    const response: PollResponse = {
+      hasNewContent: false,
+      linkStatus: link.status,
+      nextPollIn: this.nextPollIn[request.type]
+    };
+
+    if (link.status !== 'active' || link.pending.length === 0) {
+      return response;
+    }
+
+    const delivered = link.pending.splice(0, this.maxPayloadsPerPoll);
+    response.hasNewContent = true;
+    if (delivered.length === 1) {
+      response.payload = delivered[0];
+    } else {
+      response.payloads = delivered;
+    }
+    if (link.pending.length > 0) {
+      response.hasMore = true;
+    }
+    return response;
+  }
+
+  private link(token: string): MockLink {
+    let link = this.links.get(token);
+    if (!link) {
+      link = { status: 'active', pending: [], polls: 0 };
+      this.links.set(token, link);
+    }
+    return link;
+  }
+}
+
+function readHeader(headers: HeadersInit | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const entries = Array.isArray(headers) ? headers : Object.entries(headers);
+  const match = entries.find(([key]) => key.toLowerCase() === name.toLowerCase());
+  return match?.[1];
+}
+
+function mockResponse(status: number, body: unknown, statusText = 'OK'): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText,
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? 'application/json' : null) },
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  } as unknown as Response;
+}
@@ -1,19 +1,184 @@
+import type { BatchPoller } from './batch-poller';
+import type { CircuitBreaker } from './circuit-breaker';
+import type { EnvironmentMonitor } from './environment';
+import type { HttpClient } from './http';
+
 export interface SDKOptions {
   pollingEndpoint: string;
   apiKey?: string;
+  getAuthToken?: () => string | Promise<string>;  // Bearer token provider, called when no token is cached and after a 401
   pingInterval?: number;
   webhookInterval?: number;
   onError?: (error: Error) => void;
   debug?: boolean;
   validation?: ValidationOptions;
+  transport?: TransportType;
+  streamEndpoint?: string;
+  maxReconnectAttempts?: number;
+  streamCredentials?: boolean;  // Send cookies with SSE requests; the endpoint must allow credentialed CORS (default: false)
+  streamTokenInUrl?: boolean;   // Send the getAuthToken token as access_token in the SSE URL (default: false)
+  batch?: boolean | BatchOptions;
+  storage?: StorageAdapter;
+  storageKey?: string;
+  delivery?: DeliveryMode;
+  dedupWindow?: number;
+  retryPolicy?: RetryPolicy;
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  onCircuitChange?: (state: CircuitState, endpoint: string) => void;
+  background?: boolean | BackgroundOptions;  // Visibility/network-aware polling (default: true)
+  coordination?: boolean | CoordinationOptions;  // Poll each link from one tab only (default: false)
+  requestTimeout?: number;  // Fail a poll request after this many ms; 0 waits forever (default: 30000)
+  fetch?: typeof fetch;     // Fetch implementation for poll requests, e.g. with a proxy agent (default: global fetch)
+  interceptors?: HttpInterceptor[];  // Hooks around every poll request, applied in order
+}
+
+/**
+ * A request to the polling endpoint as interceptors see it
+ */
+export interface HttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;  // PollRequest, or BatchPollRequest in batch mode; sent as JSON
+}
+
+/**
+ * Hooks around every request to the polling endpoint. Each hook may be async;
+ * interceptors run in the order they are configured.
+ * - `onRequest`: return a changed request, e.g. with a CSRF header or signature
+ * - `onResponse`: return a replacement for the parsed body, e.g. a backend
+ *   format mapped to a PollResponse; returning undefined keeps the body
+ * - `onError`: return a body to recover from a failed request, or throw a
+ *   different error; returning undefined passes the error on. Cancelled
+ *   requests do not reach it.
+ */
+export interface HttpInterceptor {
+  onRequest?: (request: HttpRequest) => HttpRequest | void | Promise<HttpRequest | void>;
+  onResponse?: (data: unknown, response: Response, request: HttpRequest) => unknown;
+  onError?: (error: Error, request: HttpRequest) => unknown;
+}
+
+/**
+ * - `at-most-once` (default): a payload is marked delivered before onPayload runs
+ * - `at-least-once`: onPayload may return a Promise; if it throws or rejects the
+ *   payload is not acknowledged and the cursor does not advance, so the server
+ *   offers it again on the next poll
+ */
+export type DeliveryMode = 'at-most-once' | 'at-least-once';
+
+/**
+ * Async key-value storage used to persist listeners across reloads
+ */
+export interface StorageAdapter {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * What is saved for each listener. Note that `linkUrl` includes any password
+ * and encryption key contained in the link.
+ */
+export interface PersistedListener {
+  listenerId: string;
+  linkUrl: string;
+  clientId: string;
+  lastSeen?: number;
+  cursor?: string;
+  options?: ListenOptions;
+  savedAt: number;
+}
+
+/**
+ * Where a listener is in its link's payload stream
+ */
+export interface ListenerCursor {
+  lastSeen?: number;  // Timestamp of the newest delivered payload (server clock)
+  cursor?: string;    // Opaque cursor from the last PollResponse
+}
+
+export interface RetryPolicy {
+  strategy?: 'exponential' | 'linear';  // How the interval grows after empty polls (default: 'exponential')
+  multiplier?: number;         // Growth factor for 'exponential' (default: 1.5)
+  increment?: number;          // Milliseconds added per step for 'linear' (default: the base interval)
+  emptyPollThreshold?: number; // Empty polls before slowing down (default: 3)
+  maxInterval?: number;        // Upper bound for the polling interval (default: 300000)
+  jitter?: number;             // Randomize every delay by up to ±this fraction, 0-1 (default: 0)
+  errorBackoff?: ErrorBackoff;
+  maxConsecutiveFailures?: number; // Stop the listener after this many failed polls (default: never)
+  respectRetryAfter?: boolean;     // Wait as long as a 429/503 Retry-After header asks (default: true)
 }
 
+export interface ErrorBackoff {
+  initialDelay?: number;  // Delay after the first failed poll (default: the base interval)
+  multiplier?: number;    // Growth factor per further failure (default: 2)
+  maxDelay?: number;      // Upper bound (default: maxInterval)
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;  // Consecutive failed requests that open the circuit (default: 5)
+  resetTimeout?: number;      // Milliseconds before a trial request is let through (default: 30000)
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface BackgroundOptions {
+  whenHidden?: 'continue' | 'slow' | 'pause';  // Polling while the page is hidden (default: 'slow')
+  hiddenSlowdown?: number;                     // Interval multiplier for 'slow' (default: 5)
+  whenOffline?: 'continue' | 'pause';          // Polling while the device is offline (default: 'pause')
+  pollOnResume?: boolean;                      // Poll as soon as the page is visible / online again (default: true)
+}
+
+export type PauseReason = 'hidden' | 'offline' | 'manual';
+
+export interface CoordinationOptions {
+  channelName?: string;        // BroadcastChannel / storage key shared by the tabs (default: 'secret-links-sdk')
+  heartbeatInterval?: number;  // How often the leader tab announces itself (default: 2000)
+  leaderTimeout?: number;      // Silence after which a follower takes over (default: 5000)
+  electionDelay?: number;      // Wait for an existing leader before polling a new link (default: 300)
+}
+
+/**
+ * Batch polling groups the polls of all listeners that fall due within
+ * `batchWindow` ms into one POST of a BatchPollRequest.
+ */
+export interface BatchOptions {
+  endpoint?: string;       // Defaults to pollingEndpoint
+  batchWindow?: number;    // Milliseconds to wait for more due polls (default: 50)
+  maxBatchSize?: number;   // Maximum requests per batch (default: 50)
+}
+
+/**
+ * How a listener receives updates. `sse` and `websocket` expect the backend to
+ * push JSON-encoded PollResponse messages and fall back to `poll` on failure.
+ */
+export type TransportType = 'poll' | 'sse' | 'websocket';
+
 export interface ValidationOptions {
-  allowedDomains?: string[];
+  allowedDomains?: string[];       // Exact domains or wildcards like '*.example.com'
   allowedLinkTypes?: ('ping' | 'webhook')[];
   requirePassword?: boolean;
+  blockedTokens?: string[];
+  maxListenersPerDomain?: number;
+}
+
+/**
+ * Information available to validators besides the parsed link
+ */
+export interface ValidationContext {
+  url: string;
+  activeLinks: LinkInfo[];  // Links of all current listeners
 }
 
+/**
+ * What a validator returns: nothing when the link passes, otherwise an issue,
+ * several issues, or just a message (reported with code 'CUSTOM').
+ */
+export type ValidatorResult = LinkValidationIssue | LinkValidationIssue[] | string | null | undefined | void;
+
+export type LinkValidator = (linkInfo: LinkInfo, context: ValidationContext) => ValidatorResult;
+
+export type AsyncLinkValidator = (linkInfo: LinkInfo, context: ValidationContext) => Promise<ValidatorResult>;
+
 export interface LinkInfo {
   isValid: boolean;
   token: string;
@@ -23,18 +188,111 @@ export interface LinkInfo {
   domain: string;
   password?: string;
   encryptionKey?: string;
+  errors?: LinkValidationIssue[];  // Set when isValid is false
+}
+
+export type ValidationErrorReason =
+  | 'INVALID_URL'
+  | 'INVALID_TOKEN'
+  | 'DOMAIN_NOT_ALLOWED'
+  | 'LINK_TYPE_NOT_ALLOWED'
+  | 'PASSWORD_REQUIRED'
+  | 'TOKEN_BLOCKED'
+  | 'TOO_MANY_LISTENERS'
+  | 'CUSTOM';
+
+/**
+ * One reason a link was rejected: a machine-readable code and a message
+ * suitable for showing to the user.
+ */
+export interface LinkValidationIssue {
+  code: ValidationErrorReason;
+  message: string;
+  rule?: string;  // Name of the custom validator that reported the issue
 }
 
-export interface LinkCallbacks {
-  onPayload?: (payload: PayloadData, linkInfo: LinkInfo) => void;
+export interface LinkCallbacks<T = unknown> {
+  onPayload?: (payload: PayloadData<T>, linkInfo: LinkInfo) => void | Promise<void>;
+  schema?: PayloadSchema<T>;  // Checks payload data before onPayload; rejected payloads are reported and skipped
   onError?: (error: Error, linkInfo: LinkInfo) => void;
   onStatusChange?: (status: LinkStatus, linkInfo: LinkInfo) => void;
 }
 
-export interface PayloadData {
+export interface PollEndInfo {
+  duration: number;         // Request time in ms
+  response?: PollResponse;  // Set when the endpoint answered
+  error?: Error;            // Set when the request failed
+}
+
+/**
+ * Events of a single listener, see SecretLinksSDK.listener()
+ */
+export interface ListenerEvents {
+  payload: [payload: PayloadData, linkInfo: LinkInfo];
+  error: [error: Error, linkInfo: LinkInfo];
+  statusChange: [status: LinkStatus, linkInfo: LinkInfo];
+  pollStart: [linkInfo: LinkInfo];
+  pollEnd: [info: PollEndInfo, linkInfo: LinkInfo];
+  intervalChange: [interval: number, previousInterval: number, linkInfo: LinkInfo];
+}
+
+/**
+ * Events of all listeners of an SDK instance, tagged with the listener ID.
+ * `error` is also emitted for errors that belong to no listener, such as
+ * storage failures.
+ */
+export interface SDKEvents {
+  payload: [payload: PayloadData, linkInfo: LinkInfo, listenerId: string];
+  error: [error: Error, linkInfo?: LinkInfo, listenerId?: string];
+  statusChange: [status: LinkStatus, linkInfo: LinkInfo, listenerId: string];
+  pollStart: [linkInfo: LinkInfo, listenerId: string];
+  pollEnd: [info: PollEndInfo, linkInfo: LinkInfo, listenerId: string];
+  intervalChange: [interval: number, previousInterval: number, linkInfo: LinkInfo, listenerId: string];
+}
+
+// Per-link polling overrides for startListening
+export interface ListenOptions {
+  interval?: number;     // Base polling interval (default: pingInterval / webhookInterval)
+  minInterval?: number;  // Lower bound, also for server-suggested intervals (default: 1000)
+  maxInterval?: number;  // Upper bound for backoff (default: retryPolicy.maxInterval or 300000)
+  adaptive?: boolean;    // Slow down after empty polls and follow nextPollIn (default: true)
+}
+
+// Options for sdk.createLinkStore() and the framework bindings
+export interface LinkStoreOptions<T = unknown> extends ListenOptions {
+  maxPayloads?: number;  // Payloads kept in the state, newest last (default: 100)
+  onPayload?: (payload: PayloadData<T>, linkInfo: LinkInfo) => void;  // Called for every payload, e.g. to navigate
+  schema?: PayloadSchema<T>;  // Checks payload data; see LinkCallbacks.schema
+}
+
+/**
+ * Snapshot of a listener for UI frameworks. A new object is created on every
+ * change.
+ */
+export interface SecretLinkState<T = unknown> {
+  payloads: PayloadData<T>[];
+  status: LinkStatus | null;  // null until the listener has started
+  error: Error | null;        // Most recent error; polling may still continue
+  isPolling: boolean;
+}
+
+// Options for sdk.listen()
+export interface StreamOptions<T = unknown> extends ListenOptions {
+  signal?: AbortSignal;       // Stops the listener; a pending next() rejects with AbortError
+  schema?: PayloadSchema<T>;  // Checks payload data; see LinkCallbacks.schema
+}
+
+// Options for sdk.waitForPayload()
+export interface WaitForPayloadOptions<T = unknown> extends StreamOptions<T> {
+  timeout?: number;                                // Reject with TimeoutError after this many ms
+  filter?: (payload: PayloadData<T>) => boolean;  // Resolve only on matching payloads
+}
+
+export interface PayloadData<T = unknown> {
+  id?: string;  // Unique payload ID, used for deduplication and acknowledgements
   type: 'ping' | 'webhook';
   timestamp: number;
-  data: unknown;
+  data: T;
   metadata?: {
     source: string;
     userAgent?: string;
@@ -42,6 +300,31 @@ export interface PayloadData {
   };
 }
 
+/**
+ * Checks the (decrypted) data of a payload and returns it typed, or throws.
+ * Either a function or an object with a parse method, so zod, valibot and
+ * similar schemas can be passed as they are.
+ */
+export type PayloadSchema<T> =
+  | ((data: unknown) => T | Promise<T>)
+  | { parse: (data: unknown) => T | Promise<T> };
+
+/**
+ * Ciphertext envelope for encrypted links. When a link carries an encryption
+ * key in its URL fragment, `PayloadData.data` may hold this envelope; the SDK
+ * decrypts it client-side before calling `onPayload`.
+ *
+ * - `iv`: base64url-encoded 12-byte AES-GCM nonce
+ * - `ciphertext`: base64url-encoded AES-GCM output (ciphertext + auth tag)
+ *   of the UTF-8 JSON plaintext
+ */
+export interface EncryptedEnvelope {
+  v: 1;
+  alg: 'AES-GCM';
+  iv: string;
+  ciphertext: string;
+}
+
 export type LinkStatus = 'active' | 'expired' | 'exhausted' | 'deleted';
 
 export interface PollRequest {
@@ -51,20 +334,59 @@ export interface PollRequest {
   clientId?: string;
   timestamp?: number;
   lastSeen?: number;
+  cursor?: string;   // Echo of the last PollResponse.cursor
+  ack?: string[];    // IDs of payloads delivered since the previous request
 }
 
 export interface PollResponse {
   hasNewContent: boolean;
   payload?: PayloadData;
+  payloads?: PayloadData[];  // Several payloads at once; delivered in timestamp order
+  hasMore?: boolean;         // More payloads are pending; the SDK polls again immediately
   nextPollIn?: number;
   error?: string;
   linkStatus: LinkStatus;
+  cursor?: string;
+}
+
+export interface BatchPollRequest {
+  requests: PollRequest[];
+}
+
+/**
+ * Responses must be in the same order as BatchPollRequest.requests
+ */
+export interface BatchPollResponse {
+  responses: PollResponse[];
 }
 
 export interface PollerOptions {
   endpoint: string;
   apiKey?: string;
   interval: number;
+  minInterval?: number;
+  maxInterval?: number;
+  adaptive?: boolean;
   callbacks: LinkCallbacks;
   debug?: boolean;
+  transport?: TransportType;
+  streamEndpoint?: string;
+  maxReconnectAttempts?: number;
+  streamCredentials?: boolean;
+  streamTokenInUrl?: boolean;
+  batcher?: BatchPoller;
+  listenerId?: string;
+  clientId?: string;           // Reuse a client ID when resuming a listener
+  lastSeen?: number;           // Initial position when resuming a listener
+  cursor?: string;
+  onCursorChange?: (cursor: ListenerCursor) => void;
+  delivery?: DeliveryMode;
+  dedupWindow?: number;
+  retryPolicy?: RetryPolicy;
+  circuitBreaker?: CircuitBreaker;    // Shared by every poller of the same endpoint
+  onGiveUp?: (error: Error) => void;  // The poller stopped after maxConsecutiveFailures
+  environment?: EnvironmentMonitor;   // Visibility and connectivity source; omit to always poll
+  background?: BackgroundOptions;
+  requestTimeout?: number;            // Fail a poll request after this many ms; 0 waits forever (default: 30000)
+  http?: HttpClient;                  // Shared by every poller of an SDK; created from apiKey if omitted
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { LinkInfo } from './types';
+import { LinkInfo, ValidationErrorReason } from './types';
 
 // URL Pattern matching for Secret Links
 const LINK_PATTERNS = {
@@ -9,14 +9,7 @@ const LINK_PATTERNS = {
 
 export function parseLink(url: string): LinkInfo {
   if (!url || typeof url !== 'string') {
-    return {
-      isValid: false,
-      token: '',
-      type: 'ping' as const,
-      hasPassword: false,
-      hasEncryption: false,
-      domain: ''
-    };
+    return invalidLinkInfo('INVALID_URL', 'Link URL is empty');
   }
 
   // Try to match Secret Links pattern first
@@ -36,14 +29,7 @@ export function parseLink(url: string): LinkInfo {
   }
 
   if (!match || !token) {
-    return {
-      isValid: false,
-      token: '',
-      type: 'ping' as const,
-      hasPassword: false,
-      hasEncryption: false,
-      domain: ''
-    };
+    return diagnoseInvalidLink(url);
   }
 
   // Parse URL components
@@ -76,6 +62,45 @@ export function parseLink(url: string): LinkInfo {
   return linkInfo;
 }
 
+function invalidLinkInfo(code: ValidationErrorReason, message: string): LinkInfo {
+  return {
+    isValid: false,
+    token: '',
+    type: 'ping' as const,
+    hasPassword: false,
+    hasEncryption: false,
+    domain: '',
+    errors: [{ code, message }]
+  };
+}
+
+/**
+ * Work out why a URL did not match the link patterns
+ */
+function diagnoseInvalidLink(url: string): LinkInfo {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return invalidLinkInfo('INVALID_URL', 'Link is not a valid URL');
+  }
+
+  if (urlObj.protocol !== 'https:') {
+    return invalidLinkInfo('INVALID_URL', 'Link must use https');
+  }
+
+  const pathMatch = urlObj.pathname.match(/^\/link\/([^/]*)$/);
+  if (!pathMatch) {
+    return invalidLinkInfo('INVALID_URL', 'Link path must be /link/<token>');
+  }
+
+  if (!pathMatch[1]) {
+    return invalidLinkInfo('INVALID_TOKEN', 'Link token is missing');
+  }
+
+  return invalidLinkInfo('INVALID_TOKEN', 'Link token must be 16-64 letters, digits, "_" or "-"');
+}
+
 function detectLinkType(token: string): 'ping' | 'webhook' {
   // Basic heuristics for link type detection
   // This would need to be refined based on actual token patterns
@@ -123,6 +148,106 @@ export function validateSDKOptions(options: unknown): void {
   if (opts.webhookInterval !== undefined && (typeof opts.webhookInterval !== 'number' || opts.webhookInterval < 1000)) {
     throw new Error('webhookInterval must be a number >= 1000 (1 second)');
   }
+
+  if (opts.requestTimeout !== undefined && (typeof opts.requestTimeout !== 'number' || opts.requestTimeout < 0)) {
+    throw new Error('requestTimeout must be a non-negative number (0 to wait forever)');
+  }
+
+  if (opts.getAuthToken !== undefined && typeof opts.getAuthToken !== 'function') {
+    throw new Error('getAuthToken must be a function');
+  }
+
+  if (opts.fetch !== undefined && typeof opts.fetch !== 'function') {
+    throw new Error('fetch must be a function');
+  }
+
+  if (opts.interceptors !== undefined && !Array.isArray(opts.interceptors)) {
+    throw new Error('interceptors must be an array');
+  }
+
+  if (opts.transport !== undefined && !['poll', 'sse', 'websocket'].includes(opts.transport as string)) {
+    throw new Error("transport must be one of 'poll', 'sse' or 'websocket'");
+  }
+
+  if (opts.streamEndpoint !== undefined) {
+    try {
+      new URL(opts.streamEndpoint as string);
+    } catch {
+      throw new Error('streamEndpoint must be a valid URL');
+    }
+  }
+
+  // URLs end up in server and proxy logs, so only short-lived tokens from
+  // getAuthToken may go there, never a fixed apiKey
+  if (opts.streamTokenInUrl && typeof opts.getAuthToken !== 'function') {
+    throw new Error('streamTokenInUrl requires getAuthToken');
+  }
+
+  if (opts.batch && typeof opts.batch === 'object') {
+    const batch = opts.batch as Record<string, unknown>;
+    if (batch.endpoint !== undefined) {
+      try {
+        new URL(batch.endpoint as string);
+      } catch {
+        throw new Error('batch.endpoint must be a valid URL');
+      }
+    }
+    if (batch.maxBatchSize !== undefined && (typeof batch.maxBatchSize !== 'number' || batch.maxBatchSize < 1)) {
+      throw new Error('batch.maxBatchSize must be a number >= 1');
+    }
+  }
+
+  if (opts.delivery !== undefined && !['at-most-once', 'at-least-once'].includes(opts.delivery as string)) {
+    throw new Error("delivery must be 'at-most-once' or 'at-least-once'");
+  }
+
+  if (opts.dedupWindow !== undefined && (typeof opts.dedupWindow !== 'number' || opts.dedupWindow < 0)) {
+    throw new Error('dedupWindow must be a non-negative number');
+  }
+
+  if (opts.maxReconnectAttempts !== undefined && (typeof opts.maxReconnectAttempts !== 'number' || opts.maxReconnectAttempts < 0)) {
+    throw new Error('maxReconnectAttempts must be a non-negative number');
+  }
+
+  if (opts.background && typeof opts.background === 'object') {
+    const background = opts.background as Record<string, unknown>;
+    if (background.whenHidden !== undefined && !['continue', 'slow', 'pause'].includes(background.whenHidden as string)) {
+      throw new Error("background.whenHidden must be 'continue', 'slow' or 'pause'");
+    }
+    if (background.whenOffline !== undefined && !['continue', 'pause'].includes(background.whenOffline as string)) {
+      throw new Error("background.whenOffline must be 'continue' or 'pause'");
+    }
+    if (background.hiddenSlowdown !== undefined && (typeof background.hiddenSlowdown !== 'number' || background.hiddenSlowdown < 1)) {
+      throw new Error('background.hiddenSlowdown must be a number >= 1');
+    }
+  }
+
+  if (opts.coordination && typeof opts.coordination === 'object') {
+    const coordination = opts.coordination as Record<string, unknown>;
+    for (const key of ['heartbeatInterval', 'leaderTimeout', 'electionDelay']) {
+      if (coordination[key] !== undefined && (typeof coordination[key] !== 'number' || (coordination[key] as number) < 0)) {
+        throw new Error(`coordination.${key} must be a non-negative number`);
+      }
+    }
+    if (typeof coordination.heartbeatInterval === 'number' && typeof coordination.leaderTimeout === 'number' &&
+      coordination.leaderTimeout <= coordination.heartbeatInterval) {
+      throw new Error('coordination.leaderTimeout must be greater than heartbeatInterval');
+    }
+  }
+
+  if (opts.retryPolicy !== undefined) {
+    validateRetryPolicy(opts.retryPolicy);
+  }
+
+  if (opts.circuitBreaker && typeof opts.circuitBreaker === 'object') {
+    const circuit = opts.circuitBreaker as Record<string, unknown>;
+    if (circuit.failureThreshold !== undefined && (typeof circuit.failureThreshold !== 'number' || circuit.failureThreshold < 1)) {
+      throw new Error('circuitBreaker.failureThreshold must be a number >= 1');
+    }
+    if (circuit.resetTimeout !== undefined && (typeof circuit.resetTimeout !== 'number' || circuit.resetTimeout < 0)) {
+      throw new Error('circuitBreaker.resetTimeout must be a non-negative number');
+    }
+  }
 }
 
 export function debugLog(debug: boolean, message: string, data?: unknown): void {
@@ -130,4 +255,61 @@ export function debugLog(debug: boolean, message: string, data?: unknown): void
     // eslint-disable-next-line no-console
     console.log(`[SecretLinksSDK] ${message}`, data || '');
   }
-}
\ No newline at end of file
+}
+
+function validateRetryPolicy(value: unknown): void {
+  if (!value || typeof value !== 'object') {
+    throw new Error('retryPolicy must be an object');
+  }
+
+  const policy = value as Record<string, unknown>;
+
+  if (policy.strategy !== undefined && !['exponential', 'linear'].includes(policy.strategy as string)) {
+    throw new Error("retryPolicy.strategy must be 'exponential' or 'linear'");
+  }
+
+  if (policy.multiplier !== undefined && (typeof policy.multiplier !== 'number' || policy.multiplier < 1)) {
+    throw new Error('retryPolicy.multiplier must be a number >= 1');
+  }
+
+  if (policy.jitter !== undefined && (typeof policy.jitter !== 'number' || policy.jitter < 0 || policy.jitter > 1)) {
+    throw new Error('retryPolicy.jitter must be a number between 0 and 1');
+  }
+
+  if (policy.maxConsecutiveFailures !== undefined &&
+    (typeof policy.maxConsecutiveFailures !== 'number' || policy.maxConsecutiveFailures < 1)) {
+    throw new Error('retryPolicy.maxConsecutiveFailures must be a number >= 1');
+  }
+
+  for (const key of ['increment', 'maxInterval', 'emptyPollThreshold']) {
+    if (policy[key] !== undefined && (typeof policy[key] !== 'number' || (policy[key] as number) < 0)) {
+      throw new Error(`retryPolicy.${key} must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Validate per-link polling overrides passed to startListening
+ * @throws Error describing the first invalid option
+ */
+export function validateListenOptions(options: unknown): void {
+  if (!options || typeof options !== 'object') {
+    throw new Error('listen options must be an object');
+  }
+
+  const opts = options as Record<string, unknown>;
+
+  for (const key of ['interval', 'minInterval', 'maxInterval']) {
+    if (opts[key] !== undefined && (typeof opts[key] !== 'number' || (opts[key] as number) < 1000)) {
+      throw new Error(`${key} must be a number >= 1000 (1 second)`);
+    }
+  }
+
+  if (typeof opts.minInterval === 'number' && typeof opts.maxInterval === 'number' && opts.minInterval > opts.maxInterval) {
+    throw new Error('minInterval must not be greater than maxInterval');
+  }
+
+  if (opts.adaptive !== undefined && typeof opts.adaptive !== 'boolean') {
+    throw new Error('adaptive must be a boolean');
+  }
+}
@@ -0,0 +1,84 @@
+import { LinkInfo, LinkValidationIssue, ValidationContext, ValidationOptions, ValidatorResult } from './types';
+
+/**
+ * Match a domain against an allowed-domain entry. `*.example.com` matches any
+ * subdomain of example.com but not example.com itself.
+ */
+export function matchesDomain(domain: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    const suffix = pattern.substring(1);
+    return domain.length > suffix.length && domain.endsWith(suffix);
+  }
+  return domain === pattern;
+}
+
+/**
+ * Apply the rules configured through ValidationOptions
+ * @returns Every failed rule, in a stable order
+ */
+export function applyBuiltInRules(
+  linkInfo: LinkInfo,
+  validation: ValidationOptions,
+  context: ValidationContext
+): LinkValidationIssue[] {
+  const issues: LinkValidationIssue[] = [];
+
+  // Check allowed domains
+  if (validation.allowedDomains && validation.allowedDomains.length > 0) {
+    if (!validation.allowedDomains.some((pattern) => matchesDomain(linkInfo.domain, pattern))) {
+      issues.push({
+        code: 'DOMAIN_NOT_ALLOWED',
+        message: `Domain ${linkInfo.domain} is not allowed. Allowed domains: ${validation.allowedDomains.join(', ')}`
+      });
+    }
+  }
+
+  // Check allowed link types
+  if (validation.allowedLinkTypes && validation.allowedLinkTypes.length > 0) {
+    if (!validation.allowedLinkTypes.includes(linkInfo.type as 'ping' | 'webhook')) {
+      issues.push({
+        code: 'LINK_TYPE_NOT_ALLOWED',
+        message: `Link type ${linkInfo.type} is not allowed. Allowed types: ${validation.allowedLinkTypes.join(', ')}`
+      });
+    }
+  }
+
+  // Check password requirement
+  if (validation.requirePassword && !linkInfo.hasPassword) {
+    issues.push({ code: 'PASSWORD_REQUIRED', message: 'Password-protected links are required' });
+  }
+
+  // Check token blocklist
+  if (validation.blockedTokens && validation.blockedTokens.includes(linkInfo.token)) {
+    issues.push({ code: 'TOKEN_BLOCKED', message: 'This link has been blocked' });
+  }
+
+  // Check listener limit per domain
+  if (validation.maxListenersPerDomain !== undefined) {
+    const count = context.activeLinks.filter((link) => link.domain === linkInfo.domain).length;
+    if (count >= validation.maxListenersPerDomain) {
+      issues.push({
+        code: 'TOO_MANY_LISTENERS',
+        message: `Already listening to ${count} links on ${linkInfo.domain} (maximum ${validation.maxListenersPerDomain})`
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Turn whatever a custom validator returned into a list of issues
+ */
+export function normalizeValidatorResult(result: ValidatorResult, rule: string): LinkValidationIssue[] {
+  if (!result) {
+    return [];
+  }
+
+  if (typeof result === 'string') {
+    return [{ code: 'CUSTOM', message: result, rule }];
+  }
+
+  const issues = Array.isArray(result) ? result : [result];
+  return issues.map((issue) => ({ rule, ...issue }));
+}
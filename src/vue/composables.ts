@@ -0,0 +1,79 @@
+import {
+  computed,
+  ComputedRef,
+  getCurrentInstance,
+  getCurrentScope,
+  MaybeRefOrGetter,
+  onMounted,
+  onScopeDispose,
+  shallowRef,
+  toValue,
+  watch
+} from 'vue';
+import type { SecretLinksSDK } from '../secret-links-sdk';
+import type { LinkStatus, LinkStoreOptions, PayloadData, SecretLinkState } from '../types';
+import { useSecretLinksSDK } from './plugin';
+
+export interface UseSecretLinkOptions<T = unknown> extends LinkStoreOptions<T> {
+  sdk?: SecretLinksSDK;  // Use this instance instead of the one provided by createSecretLinks
+}
+
+export interface SecretLinkRefs<T = unknown> {
+  payloads: ComputedRef<PayloadData<T>[]>;
+  status: ComputedRef<LinkStatus | null>;
+  error: ComputedRef<Error | null>;
+  isPolling: ComputedRef<boolean>;
+  state: ComputedRef<SecretLinkState<T>>;
+}
+
+const idleState: SecretLinkState<never> = { payloads: [], status: null, error: null, isPolling: false };
+
+/**
+ * Listen to a link for the lifetime of the component (or effect scope). The
+ * listener restarts when the URL changes; a null or empty URL stops it.
+ * Nothing polls during server rendering.
+ * @param url The Secret Links URL, as a value, ref or getter
+ */
+export function useSecretLink<T = unknown>(
+  url: MaybeRefOrGetter<string | null | undefined>,
+  options: UseSecretLinkOptions<T> = {}
+): SecretLinkRefs<T> {
+  const { sdk = useSecretLinksSDK(), ...storeOptions } = options;
+  const state = shallowRef<SecretLinkState<T>>(idleState);
+  let unsubscribe: (() => void) | null = null;
+
+  const follow = (value: string | null | undefined) => {
+    unsubscribe?.();
+    unsubscribe = null;
+    state.value = idleState;
+
+    if (value) {
+      unsubscribe = sdk.createLinkStore(value, storeOptions).subscribe((snapshot) => {
+        state.value = snapshot;
+      });
+    }
+  };
+
+  // In components, start once mounted: mounted hooks do not run during SSR
+  const start = () => watch(() => toValue(url), follow, { immediate: true });
+  if (getCurrentInstance()) {
+    onMounted(start);
+  } else {
+    start();
+  }
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      unsubscribe?.();
+      unsubscribe = null;
+    });
+  }
+
+  return {
+    payloads: computed(() => state.value.payloads),
+    status: computed(() => state.value.status),
+    error: computed(() => state.value.error),
+    isPolling: computed(() => state.value.isPolling),
+    state: computed(() => state.value)
+  };
+}
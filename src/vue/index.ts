@@ -0,0 +1,6 @@
+// Vue bindings for the SDK
+export { createSecretLinks, useSecretLinksSDK, secretLinksKey } from './plugin';
+export { useSecretLink } from './composables';
+
+export type { UseSecretLinkOptions, SecretLinkRefs } from './composables';
+export type { SecretLinkState } from '../types';
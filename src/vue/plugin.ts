@@ -0,0 +1,38 @@
+import { App, InjectionKey, hasInjectionContext, inject } from 'vue';
+// Runtime imports of the core go through the entry point, which the bundle
+// imports from secret-links-sdk
+import { SecretLinksSDK } from '../index';
+import type { SDKOptions } from '../types';
+
+export const secretLinksKey: InjectionKey<SecretLinksSDK> = Symbol('secret-links-sdk');
+
+/**
+ * Vue plugin that provides an SDK instance to useSecretLink
+ * @param sdkOrOptions An SDK instance, or options to create one; a created
+ * SDK stops its listeners when the app unmounts
+ */
+export function createSecretLinks(sdkOrOptions: SecretLinksSDK | SDKOptions) {
+  const owned = !(sdkOrOptions instanceof SecretLinksSDK);
+  const sdk = sdkOrOptions instanceof SecretLinksSDK ? sdkOrOptions : new SecretLinksSDK(sdkOrOptions);
+
+  return {
+    sdk,
+    install(app: App): void {
+      app.provide(secretLinksKey, sdk);
+      if (owned) {
+        app.onUnmount?.(() => sdk.stopAll());
+      }
+    }
+  };
+}
+
+/**
+ * The SDK provided by createSecretLinks
+ */
+export function useSecretLinksSDK(): SecretLinksSDK {
+  const sdk = hasInjectionContext() ? inject(secretLinksKey, null) : null;
+  if (!sdk) {
+    throw new Error('useSecretLink requires the createSecretLinks plugin or the sdk option');
+  }
+  return sdk;
+}
@@ -0,0 +1,321 @@
+import { SecretLinksSDK } from './secret-links-sdk';
+import { LinkInfo, LinkStatus, PayloadData } from './types';
+import { toError } from './errors';
+import { parseLink } from './utils';
+
+/**
+ * State shown by the status indicator and reflected in the `status`
+ * attribute: the element's own states plus the terminal link statuses
+ */
+export type ListenerElementStatus = 'idle' | 'invalid' | 'starting' | 'listening' | 'error' | Exclude<LinkStatus, 'active'>;
+
+export interface SecretLinkPayloadDetail {
+  payload: PayloadData;
+  linkInfo: LinkInfo;
+}
+
+export interface SecretLinkErrorDetail {
+  error: Error;
+  linkInfo?: LinkInfo;
+}
+
+export interface SecretLinkStatusDetail {
+  status: ListenerElementStatus;
+  linkInfo?: LinkInfo;
+}
+
+/**
+ * The `<secret-link-listener>` element
+ */
+export interface SecretLinkListenerElement extends HTMLElement {
+  /** SDK used for validation and listening; created from `polling-endpoint` if not set */
+  sdk: SecretLinksSDK | null;
+  /** The link URL in the input */
+  value: string;
+  readonly status: ListenerElementStatus;
+  readonly listenerId: string | null;
+  start(): Promise<void>;
+  stop(): void;
+}
+
+const labels: Record<ListenerElementStatus, string> = {
+  idle: 'Not listening',
+  invalid: 'Invalid link',
+  starting: 'Connecting…',
+  listening: 'Listening',
+  error: 'Stopped after an error',
+  expired: 'Link expired',
+  exhausted: 'Link used up',
+  deleted: 'Link deleted'
+};
+
+const template = `
+  <style>
+    :host { display: block; font: inherit; }
+    [part="container"] { display: flex; flex-wrap: wrap; gap: 0.5em; align-items: center; }
+    [part="input"] { flex: 1 1 16em; font: inherit; padding: 0.4em 0.6em; }
+    [part="button"] { font: inherit; padding: 0.4em 0.8em; cursor: pointer; }
+    [part="button"]:disabled { cursor: not-allowed; opacity: 0.5; }
+    [part="status"]::before { content: '●'; margin-right: 0.3em; color: #9ca3af; }
+    [part="status"][data-status="listening"]::before { color: #16a34a; }
+    [part="status"][data-status="starting"]::before { color: #ca8a04; }
+    [part="status"][data-status="invalid"]::before,
+    [part="status"][data-status="error"]::before,
+    [part="status"][data-status="expired"]::before,
+    [part="status"][data-status="exhausted"]::before,
+    [part="status"][data-status="deleted"]::before { color: #dc2626; }
+    [part="error"] { flex-basis: 100%; margin: 0; color: #dc2626; }
+    [part="error"][hidden] { display: none; }
+  </style>
+  <div part="container">
+    <input part="input" type="url" autocomplete="off" spellcheck="false">
+    <button part="button" type="button" disabled>Start listening</button>
+    <span part="status" role="status"></span>
+    <p part="error" role="alert" hidden></p>
+  </div>
+`;
+
+/**
+ * Register the `<secret-link-listener>` custom element. This happens when the
+ * SDK loads in a browser; call it to register the element under another name.
+ * @param tagName Custom element name (default: 'secret-link-listener')
+ * @returns The element class, or undefined outside a browser
+ */
+export function defineSecretLinkListener(tagName = 'secret-link-listener'): CustomElementConstructor | undefined {
+  if (typeof customElements === 'undefined' || typeof HTMLElement === 'undefined') {
+    return undefined;
+  }
+
+  const existing = customElements.get(tagName);
+  if (existing) {
+    return existing;
+  }
+
+  const element = createElementClass();
+  customElements.define(tagName, element);
+  return element;
+}
+
+// Declared lazily because HTMLElement does not exist during server rendering
+function createElementClass(): CustomElementConstructor {
+  return class extends HTMLElement implements SecretLinkListenerElement {
+    static get observedAttributes(): string[] {
+      return ['placeholder', 'value', 'disabled'];
+    }
+
+    private ownSdk: SecretLinksSDK | null;
+    private providedSdk: SecretLinksSDK | null;
+    private currentStatus: ListenerElementStatus;
+    private currentListenerId: string | null;
+    private input: HTMLInputElement;
+    private button: HTMLButtonElement;
+    private statusPart: HTMLElement;
+    private errorPart: HTMLElement;
+
+    constructor() {
+      super();
+      this.ownSdk = null;
+      this.providedSdk = null;
+      this.currentStatus = 'idle';
+      this.currentListenerId = null;
+
+      const root = this.attachShadow({ mode: 'open' });
+      root.innerHTML = template;
+      this.input = root.querySelector('[part="input"]') as HTMLInputElement;
+      this.button = root.querySelector('[part="button"]') as HTMLButtonElement;
+      this.statusPart = root.querySelector('[part="status"]') as HTMLElement;
+      this.errorPart = root.querySelector('[part="error"]') as HTMLElement;
+
+      this.input.addEventListener('input', () => this.validate());
+      this.button.addEventListener('click', () => {
+        if (this.currentListenerId || this.currentStatus === 'starting') {
+          this.stop();
+        } else {
+          this.start();
+        }
+      });
+    }
+
+    get sdk(): SecretLinksSDK | null {
+      return this.providedSdk || this.ownSdk;
+    }
+
+    set sdk(sdk: SecretLinksSDK | null) {
+      this.stop();
+      this.providedSdk = sdk;
+      this.validate();
+    }
+
+    get value(): string {
+      return this.input.value;
+    }
+
+    set value(value: string) {
+      this.input.value = value;
+      this.validate();
+    }
+
+    get status(): ListenerElementStatus {
+      return this.currentStatus;
+    }
+
+    get listenerId(): string | null {
+      return this.currentListenerId;
+    }
+
+    connectedCallback(): void {
+      this.render();
+      this.validate();
+    }
+
+    disconnectedCallback(): void {
+      this.stop();
+    }
+
+    attributeChangedCallback(name: string, _oldValue: string | null, value: string | null): void {
+      if (name === 'placeholder') {
+        this.input.placeholder = value || 'Paste a Secret Link…';
+      } else if (name === 'value') {
+        this.value = value || '';
+      } else {
+        this.render();
+      }
+    }
+
+    /**
+     * Start listening to the link in the input
+     */
+    async start(): Promise<void> {
+      const sdk = this.getSDK();
+      const url = this.input.value.trim();
+      if (!sdk || !url || this.currentListenerId || this.currentStatus === 'starting') {
+        return;
+      }
+
+      this.setStatus('starting');
+      try {
+        const listenerId = await sdk.startListening(url, {
+          onPayload: (payload, linkInfo) => {
+            this.emit<SecretLinkPayloadDetail>('secret-link-payload', { payload, linkInfo });
+          },
+          onError: (error, linkInfo) => {
+            this.emit<SecretLinkErrorDetail>('secret-link-error', { error, linkInfo });
+            // Compared by code: the error may come from another bundle of the SDK
+            if ((error as { code?: string }).code === 'RETRIES_EXHAUSTED') {
+              this.release();
+              this.showError(error.message);
+              this.setStatus('error', linkInfo);
+            }
+          },
+          onStatusChange: (status, linkInfo) => {
+            if (status !== 'active') {
+              this.release();
+              this.setStatus(status, linkInfo);
+            }
+          }
+        });
+
+        if (this.status !== 'starting') {
+          // Stopped, or the link closed, while the first poll ran
+          sdk.stopListening(listenerId);
+          return;
+        }
+        this.currentListenerId = listenerId;
+        this.setStatus('listening');
+      } catch (error) {
+        const errorObj = toError(error);
+        this.showError(errorObj.message);
+        this.setStatus('error');
+        this.emit<SecretLinkErrorDetail>('secret-link-error', { error: errorObj });
+      }
+    }
+
+    /**
+     * Stop listening
+     */
+    stop(): void {
+      this.release();
+      if (this.currentStatus === 'starting' || this.currentStatus === 'listening') {
+        this.setStatus('idle');
+      }
+    }
+
+    private release(): void {
+      if (this.currentListenerId) {
+        this.sdk?.stopListening(this.currentListenerId);
+        this.currentListenerId = null;
+      }
+    }
+
+    private getSDK(): SecretLinksSDK | null {
+      if (this.sdk) {
+        return this.sdk;
+      }
+
+      const endpoint = this.getAttribute('polling-endpoint');
+      if (!endpoint) {
+        this.showError('Set the polling-endpoint attribute or the sdk property');
+        return null;
+      }
+      this.ownSdk = new SecretLinksSDK({ pollingEndpoint: endpoint, onError: (error) => this.emit('secret-link-error', { error }) });
+      return this.ownSdk;
+    }
+
+    private validate(): void {
+      if (this.currentListenerId || this.currentStatus === 'starting') {
+        return;
+      }
+
+      const url = this.input.value.trim();
+      if (!url) {
+        this.showError(null);
+        this.setStatus('idle');
+        return;
+      }
+
+      // Without an SDK yet, only the URL format can be checked
+      const linkInfo = this.sdk ? this.sdk.validateLink(url) : parseLink(url);
+      if (linkInfo.isValid) {
+        this.showError(null);
+        this.setStatus('idle');
+      } else {
+        this.showError(linkInfo.errors?.[0]?.message || 'Invalid Secret Link URL');
+        this.setStatus('invalid');
+      }
+    }
+
+    private setStatus(status: ListenerElementStatus, linkInfo?: LinkInfo): void {
+      const changed = status !== this.currentStatus;
+      this.currentStatus = status;
+      this.render();
+      if (changed) {
+        this.emit<SecretLinkStatusDetail>('secret-link-status', { status, linkInfo });
+      }
+    }
+
+    private showError(message: string | null): void {
+      this.errorPart.textContent = message || '';
+      this.errorPart.hidden = !message;
+    }
+
+    private render(): void {
+      const active = this.currentStatus === 'starting' || this.currentStatus === 'listening';
+      const disabled = this.hasAttribute('disabled');
+
+      this.setAttribute('status', this.currentStatus);
+      this.statusPart.dataset.status = this.currentStatus;
+      this.statusPart.textContent = labels[this.currentStatus];
+      this.input.disabled = active || disabled;
+      this.button.textContent = active ? 'Stop listening' : 'Start listening';
+      this.button.disabled = disabled || (!active && (this.currentStatus === 'invalid' || !this.input.value.trim()));
+    }
+
+    private emit<T>(type: string, detail: T): void {
+      this.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true, composed: true }));
+    }
+  };
+}
+
+if (typeof window !== 'undefined') {
+  defineSecretLinkListener();
+}
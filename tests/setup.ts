@@ -1,5 +1,11 @@
 // Jest setup file
 import 'jest';
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+
+// jsdom lacks WebCrypto subtle and the text codecs; use Node's implementations
+Object.defineProperty(globalThis, 'crypto', { writable: true, value: webcrypto });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
 
 // Mock fetch for testing
 global.fetch = jest.fn();